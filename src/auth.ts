@@ -0,0 +1,123 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { type AuthError } from './types'
+import { type AuthConfig } from './config'
+
+export type AuthResult = { success: boolean; error?: AuthError }
+
+// 签发 Token 前验证用户身份，credential 为 gettoken 请求中的凭据
+export interface AuthProvider {
+	readonly name: string
+	verify(uid: number, credential: string): Promise<AuthResult>
+}
+
+// 洛谷云剪切板：剪切板属于该 UID 且内容为 validationPaste
+export class LuoguPasteProvider implements AuthProvider {
+	public readonly name = 'luogu'
+	private validationPaste: string
+
+	constructor(validationPaste: string) {
+		this.validationPaste = validationPaste
+	}
+
+	public async verify(uid: number, paste: string): Promise<AuthResult> {
+		uid = parseInt(uid.toString())
+		try {
+			const resp = await fetch(
+				`https://www.luogu.com/paste/${paste}?_contentOnly=1`
+			)
+			if (resp.status === 404) {
+				return { success: false, error: 'PASTE_NOT_FOUND' }
+			}
+			if (resp.status !== 200) {
+				return { success: false }
+			}
+			const data = await resp.json()
+			if (data.code !== 200) {
+				return { success: false }
+			}
+			if (parseInt(data.currentData?.paste?.user?.uid) !== uid) {
+				return { success: false, error: 'UID_MISMATCH' }
+			}
+			if (data.currentData?.paste?.data !== this.validationPaste) {
+				return { success: false, error: 'CONTENT_MISMATCH' }
+			}
+			return { success: true }
+		} catch (e) {
+			logger.error(e, 'Failed to parse paste response')
+			return { success: false }
+		}
+	}
+}
+
+// 本地白名单，用于测试和内部活动；设置了 secret 时凭据必须与之相同
+export class StaticProvider implements AuthProvider {
+	public readonly name = 'static'
+	private uids: Set<number>
+	private secret?: string
+
+	constructor(uids: number[], secret?: string) {
+		this.uids = new Set(uids)
+		this.secret = secret
+	}
+
+	public async verify(uid: number, credential: string): Promise<AuthResult> {
+		if (!this.uids.has(uid)) return { success: false, error: 'UID_NOT_ALLOWED' }
+		if (this.secret !== undefined && credential !== this.secret) {
+			return { success: false, error: 'INVALID_CREDENTIAL' }
+		}
+		return { success: true }
+	}
+}
+
+// 外部站点签发的票据：<uid>.<expiresAt>.<hex(HMAC-SHA256(secret, "<uid>.<expiresAt>"))>
+export class HmacTicketProvider implements AuthProvider {
+	public readonly name = 'hmac'
+	private secret: string
+	private maxTicketAge: number
+
+	constructor(secret: string, maxTicketAge: number) {
+		this.secret = secret
+		this.maxTicketAge = maxTicketAge
+	}
+
+	public sign(uid: number, expiresAt: number): string {
+		const payload = `${uid}.${expiresAt}`
+		const signature = createHmac('sha256', this.secret).update(payload).digest('hex')
+		return `${payload}.${signature}`
+	}
+
+	public async verify(uid: number, ticket: string): Promise<AuthResult> {
+		const parts = ticket.split('.')
+		if (parts.length !== 3) return { success: false, error: 'INVALID_CREDENTIAL' }
+		const [ticketUid, expiresAtText] = parts
+		const encoder = new TextEncoder()
+		const expected = encoder.encode(this.sign(Number(ticketUid), Number(expiresAtText)))
+		const actual = encoder.encode(ticket)
+		if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+			return { success: false, error: 'INVALID_CREDENTIAL' }
+		}
+		if (Number(ticketUid) !== uid) return { success: false, error: 'UID_MISMATCH' }
+
+		// 过期时间太远的票据同样拒绝，避免签发方误签出长期有效的票据
+		const expiresAt = Number(expiresAtText)
+		const now = Date.now()
+		if (expiresAt <= now || expiresAt > now + this.maxTicketAge) {
+			return { success: false, error: 'TICKET_EXPIRED' }
+		}
+		return { success: true }
+	}
+}
+
+export function createAuthProvider(
+	auth: AuthConfig,
+	validationPaste: string
+): AuthProvider {
+	switch (auth.type) {
+		case 'luogu':
+			return new LuoguPasteProvider(validationPaste)
+		case 'static':
+			return new StaticProvider(auth.uids, auth.secret)
+		case 'hmac':
+			return new HmacTicketProvider(auth.secret, auth.maxTicketAge)
+	}
+}
@@ -0,0 +1,258 @@
+import { type BanInfo } from './types'
+import { DBManager } from './database'
+
+type IPRange = {
+	target: string
+	version: 4 | 6
+	network: bigint
+	prefix: number
+}
+
+// 去掉 IPv4 映射地址的前缀，使 ::ffff:1.2.3.4 与 1.2.3.4 等价
+function normalizeIP(ip: string): string {
+	const lower = ip.toLowerCase()
+	if (lower.startsWith('::ffff:') && lower.includes('.')) {
+		return lower.slice(7)
+	}
+	return lower
+}
+
+function parseIPv4(ip: string): bigint | null {
+	const parts = ip.split('.')
+	if (parts.length !== 4) return null
+	let value = 0n
+	for (const part of parts) {
+		if (!/^\d{1,3}$/.test(part) || parseInt(part) > 255) return null
+		value = (value << 8n) | BigInt(parseInt(part))
+	}
+	return value
+}
+
+function parseIPv6(ip: string): bigint | null {
+	const halves = ip.split('::')
+	if (halves.length > 2) return null
+	const head = halves[0] ? halves[0].split(':') : []
+	const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+	const missing = 8 - head.length - tail.length
+	if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+	let value = 0n
+	for (const group of [...head, ...new Array(missing).fill('0'), ...tail]) {
+		if (!/^[0-9a-f]{1,4}$/i.test(group)) return null
+		value = (value << 16n) | BigInt(parseInt(group, 16))
+	}
+	return value
+}
+
+function parseIP(ip: string): { version: 4 | 6; value: bigint } | null {
+	const normalized = normalizeIP(ip)
+	const v4 = parseIPv4(normalized)
+	if (v4 !== null) return { version: 4, value: v4 }
+	const v6 = parseIPv6(normalized)
+	if (v6 !== null) return { version: 6, value: v6 }
+	return null
+}
+
+// 解析 IP 或 CIDR，单个 IP 视为最长前缀
+function parseRange(target: string): IPRange | null {
+	const [ip, prefixText, ...rest] = target.split('/')
+	if (rest.length > 0) return null
+	const parsed = parseIP(ip)
+	if (!parsed) return null
+
+	const bits = parsed.version === 4 ? 32 : 128
+	const prefix = prefixText === undefined ? bits : Number(prefixText)
+	if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return null
+
+	const shift = BigInt(bits - prefix)
+	return {
+		target,
+		version: parsed.version,
+		network: (parsed.value >> shift) << shift,
+		prefix
+	}
+}
+
+function inRange(range: IPRange, version: 4 | 6, value: bigint): boolean {
+	if (range.version !== version) return false
+	const shift = BigInt((version === 4 ? 32 : 128) - range.prefix)
+	return (value >> shift) << shift === range.network
+}
+
+export class BanManager {
+	private db?: DBManager
+	private uidBans: Map<number, BanInfo>
+	private ipBans: Map<string, BanInfo> // 键为规范化后的 IP 或 CIDR
+	private ipRanges: IPRange[] = []
+
+	constructor(db?: DBManager) {
+		this.db = db
+		this.uidBans = db?.loadUIDBans() ?? new Map()
+		this.ipBans = db?.loadIPBans() ?? new Map()
+		this.rebuildRanges()
+		if (db) {
+			logger.info(
+				`Loaded ${this.uidBans.size} UID bans and ${this.ipBans.size} IP bans from database`
+			)
+		}
+	}
+
+	private rebuildRanges() {
+		this.ipRanges = []
+		for (const target of this.ipBans.keys()) {
+			const range = parseRange(target)
+			if (range) this.ipRanges.push(range)
+		}
+	}
+
+	private isExpired(ban: BanInfo): boolean {
+		return ban.expiresAt !== null && Date.now() >= ban.expiresAt
+	}
+
+	public getUIDBan(uid: number): BanInfo | null {
+		const ban = this.uidBans.get(uid)
+		if (!ban) return null
+		if (this.isExpired(ban)) {
+			this.pardonUID(uid)
+			return null
+		}
+		return ban
+	}
+
+	public isUIDBanned(uid: number): boolean {
+		return this.getUIDBan(uid) !== null
+	}
+
+	// duration 不填为永久封禁，不大于 0 时立即过期，不封禁
+	public banUID(
+		uid: number,
+		reason: string,
+		issuedBy: string,
+		duration?: number
+	) {
+		if (duration !== undefined && duration <= 0) return
+		const now = Date.now()
+		const ban: BanInfo = {
+			reason,
+			issuedBy,
+			createdAt: now,
+			expiresAt: duration === undefined ? null : now + duration
+		}
+		this.uidBans.set(uid, ban)
+		this.db?.saveUIDBan(uid, ban)
+		logger.info(
+			`UID ${uid} banned by ${issuedBy} ${
+				duration === undefined ? 'permanently' : `for ${duration}ms`
+			}: ${reason}`
+		)
+	}
+
+	public pardonUID(uid: number): boolean {
+		const existed = this.uidBans.delete(uid)
+		this.db?.deleteUIDBan(uid)
+		return existed
+	}
+
+	// 返回命中的封禁，同时检查单个 IP 和 CIDR
+	public getIPBan(ip: string): BanInfo | null {
+		const normalized = normalizeIP(ip)
+		const exact = this.ipBans.get(normalized)
+		if (exact) {
+			if (!this.isExpired(exact)) return exact
+			this.pardonIP(normalized)
+		}
+
+		if (this.ipRanges.length === 0) return null
+		const parsed = parseIP(normalized)
+		if (!parsed) return null
+		for (const range of this.ipRanges) {
+			if (!inRange(range, parsed.version, parsed.value)) continue
+			const ban = this.ipBans.get(range.target)!
+			if (!this.isExpired(ban)) return ban
+			this.pardonIP(range.target)
+			// 列表已被重建，重新检查
+			return this.getIPBan(ip)
+		}
+		return null
+	}
+
+	public isIPBanned(ip: string): boolean {
+		return this.getIPBan(ip) !== null
+	}
+
+	// target 为单个 IP 或 CIDR，格式错误时返回 false
+	// duration 与 banUID 相同；persist 为 false 时只保存在内存中 (自动触发的短期封禁)，
+	// 且不会覆盖更长的已有封禁
+	public banIP(
+		target: string,
+		reason: string,
+		issuedBy: string,
+		duration?: number,
+		persist: boolean = true
+	): boolean {
+		const range = parseRange(normalizeIP(target))
+		if (!range) return false
+		if (duration !== undefined && duration <= 0) return true
+
+		const now = Date.now()
+		const ban: BanInfo = {
+			reason,
+			issuedBy,
+			createdAt: now,
+			expiresAt: duration === undefined ? null : now + duration
+		}
+		const existing = this.ipBans.get(range.target)
+		if (
+			!persist &&
+			existing &&
+			!this.isExpired(existing) &&
+			(existing.expiresAt === null || existing.expiresAt >= ban.expiresAt!)
+		) {
+			return true
+		}
+		this.ipBans.set(range.target, ban)
+		if (persist) this.db?.saveIPBan(range.target, ban)
+		this.rebuildRanges()
+		logger.warn(
+			`IP ${range.target} banned by ${issuedBy} ${
+				duration === undefined ? 'permanently' : `for ${duration}ms`
+			}: ${reason}`
+		)
+		return true
+	}
+
+	public pardonIP(target: string): boolean {
+		const normalized = normalizeIP(target)
+		const existed = this.ipBans.delete(normalized)
+		this.db?.deleteIPBan(normalized)
+		if (existed) this.rebuildRanges()
+		return existed
+	}
+
+	// 是否为合法的封禁目标 (单个 IP 或 CIDR)
+	public isValidTarget(target: string): boolean {
+		return parseRange(normalizeIP(target)) !== null
+	}
+
+	// 检查 IP 是否属于某个封禁目标
+	public matches(target: string, ip: string): boolean {
+		const range = parseRange(normalizeIP(target))
+		const parsed = parseIP(ip)
+		if (!range || !parsed) return false
+		return inRange(range, parsed.version, parsed.value)
+	}
+
+	public listActive(): {
+		uids: ({ uid: number } & BanInfo)[]
+		ips: ({ target: string } & BanInfo)[]
+	} {
+		return {
+			uids: [...this.uidBans.entries()]
+				.filter(([, ban]) => !this.isExpired(ban))
+				.map(([uid, ban]) => ({ uid, ...ban })),
+			ips: [...this.ipBans.entries()]
+				.filter(([, ban]) => !this.isExpired(ban))
+				.map(([target, ban]) => ({ target, ...ban }))
+		}
+	}
+}
@@ -0,0 +1,36 @@
+// 按绘版版本 (更新批次序号) 缓存编码后的响应，版本变化时整体失效
+// 同一版本的并发请求共用一次编码，条目过多时丢弃最早的
+export class ResponseCache {
+	private version = -1
+	private entries: Map<string, Promise<Uint8Array>> = new Map()
+	private maxEntries: number
+
+	constructor(maxEntries: number = 256) {
+		this.maxEntries = maxEntries
+	}
+
+	public get(
+		version: number,
+		key: string,
+		encode: () => Promise<Uint8Array>
+	): Promise<Uint8Array> {
+		if (version !== this.version) {
+			this.entries.clear()
+			this.version = version
+		}
+
+		let entry = this.entries.get(key)
+		if (!entry) {
+			entry = encode()
+			this.entries.set(key, entry)
+			if (this.entries.size > this.maxEntries) {
+				this.entries.delete(this.entries.keys().next().value!)
+			}
+			// 编码失败时不缓存，下次请求重新编码
+			entry.catch(() => {
+				if (this.entries.get(key) === entry) this.entries.delete(key)
+			})
+		}
+		return entry
+	}
+}
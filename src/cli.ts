@@ -0,0 +1,149 @@
+import pino from 'pino'
+import workerpool from 'workerpool'
+import { parseArgs } from 'util'
+import { loadConfig, resolveBoards } from './config'
+import { DBManager } from './database'
+import { paletteBackground } from './paintboard'
+import { renderTimelapse, checkTimelapseOptions } from './timelapse'
+import { HmacTicketProvider } from './auth'
+
+// 命令行工具：bun cli <command> [...args]
+const logger = pino({
+	transport: {
+		target: 'pino-pretty',
+		options: {
+			ignore: 'pid,hostname'
+		}
+	}
+})
+globalThis.logger = logger
+
+const usage = `Usage: bun cli <command> [...args]
+
+Commands:
+  migrate                 执行数据库迁移
+  import-lsp [path]       从 LSP-Reforged 数据库导入 Token (默认 ./liucang.db)
+  timelapse <output> --start <time> --end <time> --interval <ms>
+            [--board <name>] [--delay <ms>] [--scale <n>]
+                          导出延时动画，output 以 .zip 结尾时导出 PNG 帧，否则为动画 WebP
+                          时间可以是毫秒时间戳或日期字符串
+  ticket <uid> [ttl]      签发 hmac 身份验证票据，有效期 ttl 毫秒 (默认 300000)`
+
+// 毫秒时间戳或 Date 可以解析的日期
+function parseTime(value: string | undefined): number {
+	if (value === undefined) return NaN
+	return /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+}
+
+const [command, ...args] = process.argv.slice(2)
+if (!['migrate', 'import-lsp', 'timelapse', 'ticket'].includes(command)) {
+	console.log(usage)
+	process.exit(command ? 1 : 0)
+}
+
+const config = await loadConfig()
+const db = new DBManager(config.dbPath) // 打开数据库时会自动执行迁移
+
+try {
+	switch (command) {
+		case 'migrate':
+			logger.info(`Database ${config.dbPath} is up to date`)
+			break
+
+		case 'import-lsp': {
+			const path = args[0] ?? './liucang.db'
+			if (!(await Bun.file(path).exists())) {
+				logger.error(`${path} does not exist`)
+				process.exitCode = 1
+				break
+			}
+			const count = db.importLSPTokens(path)
+			logger.info(
+				`Successfully imported ${count} tokens from ${path}, restart the server to load them`
+			)
+			break
+		}
+
+		case 'ticket': {
+			const uid = Number(args[0])
+			const ttl = Number(args[1] ?? 300000)
+			if (config.auth.type !== 'hmac') {
+				logger.error('auth.type must be hmac to sign tickets')
+				process.exitCode = 1
+				break
+			}
+			if (!Number.isInteger(uid) || !(ttl > 0)) {
+				logger.error(usage)
+				process.exitCode = 1
+				break
+			}
+			const provider = new HmacTicketProvider(
+				config.auth.secret,
+				config.auth.maxTicketAge
+			)
+			console.log(provider.sign(uid, Date.now() + ttl))
+			break
+		}
+
+		case 'timelapse': {
+			const { values, positionals } = parseArgs({
+				args,
+				options: {
+					board: { type: 'string' },
+					start: { type: 'string' },
+					end: { type: 'string' },
+					interval: { type: 'string' },
+					delay: { type: 'string', default: '100' },
+					scale: { type: 'string', default: '1' }
+				},
+				allowPositionals: true
+			})
+			const output = positionals[0]
+			const board = resolveBoards(config).find(
+				board => board.name === (values.board ?? config.defaultBoard)
+			)
+			if (!output || !board) {
+				logger.error(output ? `Board ${values.board} does not exist` : usage)
+				process.exitCode = 1
+				break
+			}
+
+			// 绘版尺寸以数据库中保存的为准
+			const saved = db.loadBoard(board.name)
+			const options = {
+				board: board.name,
+				width: saved?.width ?? board.width,
+				height: saved?.height ?? board.height,
+				startTime: parseTime(values.start),
+				endTime: parseTime(values.end),
+				frameInterval: Number(values.interval),
+				frameDelay: Number(values.delay),
+				scale: Number(values.scale),
+				format: output.endsWith('.zip') ? ('zip' as const) : ('webp' as const),
+				background: paletteBackground(board.palette)
+			}
+			const error = checkTimelapseOptions(
+				options,
+				config.maxTimelapseFrames,
+				config.maxTileSize
+			)
+			if (error) {
+				logger.error(error)
+				process.exitCode = 1
+				break
+			}
+
+			globalThis.pool = workerpool.pool({ workerType: 'web' })
+			try {
+				const data = await renderTimelapse(db, config.dbPath, options)
+				await Bun.write(output, data)
+				logger.info(`Timelapse of board ${board.name} written to ${output}`)
+			} finally {
+				await pool.terminate()
+			}
+			break
+		}
+	}
+} finally {
+	db.close()
+}
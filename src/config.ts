@@ -0,0 +1,137 @@
+import { z } from 'zod'
+import { parse as parseYaml } from 'yaml'
+import { type BoardOptions } from './types'
+
+// 调色板，颜色为 '#rrggbb'，最多 256 种以便导出索引色 PNG
+const paletteSchema = z
+	.array(z.string().regex(/^#[0-9a-fA-F]{6}$/))
+	.min(1)
+	.max(256)
+
+// 绘版可以覆盖的配置项，未填写的使用顶层配置
+const boardSchema = z.strictObject({
+	width: z.number().min(1).optional(),
+	height: z.number().min(1).optional(),
+	paintDelay: z.number().min(0).optional(),
+	paintBurst: z.number().int().min(1).optional(),
+	palette: paletteSchema.nullable().optional(), // null 为不使用顶层的调色板
+	palettePolicy: z.enum(['reject', 'snap']).optional(),
+	clearBoard: z.boolean().optional(),
+	activityStartTime: z.number().optional(),
+	activityEndTime: z.number().optional()
+})
+
+// 签发 Token 时的身份验证方式
+const authSchema = z.discriminatedUnion('type', [
+	z.strictObject({ type: z.literal('luogu') }), // 洛谷云剪切板，内容为 validationPaste
+	z.strictObject({
+		type: z.literal('static'),
+		uids: z.array(z.number().int()),
+		secret: z.string().optional()
+	}),
+	z.strictObject({
+		type: z.literal('hmac'),
+		secret: z.string().min(16),
+		maxTicketAge: z.number().min(0).default(600000) // 票据过期时间最多在多久之后
+	})
+])
+
+export type AuthConfig = z.infer<typeof authSchema>
+
+export const configSchema = z.strictObject({
+	logLevel: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']),
+	port: z.number(),
+	paintDelay: z.number().min(0),
+	paintBurst: z.number().int().min(1).default(1), // 冷却结束前最多连续绘画的次数
+	palette: paletteSchema.optional(), // 不填为不限制颜色
+	palettePolicy: z.enum(['reject', 'snap']).default('reject'), // 颜色不在调色板中时拒绝或吸附到最接近的颜色
+	useDB: z.boolean().default(false),
+	dbPath: z.string().default('data.db'),
+	width: z.number().min(1).default(1000),
+	height: z.number().min(1).default(600),
+	clearBoard: z.boolean().default(false),
+	validationPaste: z.string().default('IkaPaintBoard'),
+	auth: authSchema.default({ type: 'luogu' }),
+	key: z.string().optional(),
+	cert: z.string().optional(),
+	maxWebSocketPerIP: z.number().min(0).default(0),
+	banDuration: z.number().min(0).default(60000),
+	ticksPerSecond: z.number().min(1).default(128),
+	maxPacketPerSecond: z.number().min(1).default(128),
+	enableTokenCounting: z.boolean().default(false),
+	maxAllowedUID: z.number().optional(),
+	rootToken: z.string().optional(),
+	activityStartTime: z.number().default(0),
+	activityEndTime: z.number().default(1767196800000),
+	allowQuery: z.boolean().default(false),
+	saveInterval: z.number().min(1000).default(5 * 60 * 1000),
+	journalFlushInterval: z.number().min(0).default(0),
+	snapshotInterval: z.number().min(0).default(60 * 60 * 1000),
+	snapshotRetention: z
+		.array(
+			z.strictObject({
+				interval: z.number().min(1),
+				keep: z.number().min(0)
+			})
+		)
+		.default([
+			{ interval: 60 * 60 * 1000, keep: 24 * 60 * 60 * 1000 }, // 一天内每小时一个
+			{ interval: 24 * 60 * 60 * 1000, keep: 30 * 24 * 60 * 60 * 1000 } // 一个月内每天一个
+		]),
+	chunkSize: z.number().int().min(1).default(64), // 区块订阅的区块边长
+	compressionThreshold: z.number().min(0).default(256), // 小于该字节数的批次不压缩
+	enableZstd: z.boolean().default(false), // 允许客户端协商 zstd 压缩
+	maxTimelapseFrames: z.number().int().min(1).default(1000), // 延时动画的最大帧数
+	maxTileSize: z.number().int().min(1).default(4096), // 图块缩放后的最大边长
+	resyncBufferSize: z.number().int().min(0).default(4194304), // 断线续传保留的更新批次字节数
+	maxTokenSlots: z.number().int().min(1).max(65536).default(256), // 每个连接最多绑定的 Token 数
+	statsBucketSize: z.number().int().min(60000).default(3600000), // 按时间段排行的时间精度 (ms)
+	tokenTTL: z.number().int().min(0).default(0), // Token 有效期，0 为永不过期
+	gettokenIPBurst: z.number().int().min(0).default(10), // 每个 IP 的 gettoken 令牌桶容量，0 为不限制
+	gettokenIPInterval: z.number().min(1).default(6000), // 每个 IP 恢复一次请求机会的间隔 (ms)
+	gettokenUIDBurst: z.number().int().min(0).default(5), // 每个 UID 的 gettoken 令牌桶容量，0 为不限制
+	gettokenUIDInterval: z.number().min(1).default(12000),
+	gettokenFailureCacheTTL: z.number().min(0).default(30000), // 验证失败的结果缓存多久 (ms)，0 为不缓存
+	maxConcurrentValidations: z.number().int().min(0).default(16), // 同时进行的身份验证数，0 为不限制
+	boards: z.record(z.string().regex(/^[\w-]+$/), boardSchema).optional(),
+	defaultBoard: z.string().default('default'), // 旧路由 /api/paintboard/* 对应的绘版
+}).refine(
+	config => !config.boards || config.defaultBoard in config.boards,
+	{ message: 'defaultBoard must be one of boards', path: ['defaultBoard'] }
+)
+
+export type Config = z.infer<typeof configSchema>
+
+// 展开每个绘版的完整配置，未配置 boards 时只有一个默认绘版
+export function resolveBoards(config: Config): BoardOptions[] {
+	const boards = config.boards ?? { [config.defaultBoard]: {} }
+	return Object.entries(boards).map(([name, board]) => ({
+		name,
+		palette:
+			(board.palette === undefined ? config.palette : board.palette)?.map(color =>
+				parseInt(color.slice(1), 16)
+			) ?? null,
+		palettePolicy: board.palettePolicy ?? config.palettePolicy,
+		width: board.width ?? config.width,
+		height: board.height ?? config.height,
+		paintDelay: board.paintDelay ?? config.paintDelay,
+		paintBurst: board.paintBurst ?? config.paintBurst,
+		clearBoard: board.clearBoard ?? config.clearBoard,
+		allowQuery: config.allowQuery,
+		activityStartTime: board.activityStartTime ?? config.activityStartTime,
+		activityEndTime: board.activityEndTime ?? config.activityEndTime,
+		saveInterval: config.saveInterval,
+		journalFlushInterval: config.journalFlushInterval,
+		snapshotInterval: config.snapshotInterval,
+		snapshotRetention: config.snapshotRetention,
+		chunkSize: config.chunkSize,
+		resyncBufferSize: config.resyncBufferSize,
+		statsBucketSize: config.statsBucketSize
+	}))
+}
+
+export async function loadConfig(path: string = './config.yml'): Promise<Config> {
+	const configFile = await Bun.file(path).text()
+	const parsedConfig = parseYaml(configFile)
+	return configSchema.parse(parsedConfig)
+}
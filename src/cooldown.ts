@@ -0,0 +1,68 @@
+import { type CooldownPolicy, type UserCooldown } from './types'
+import { DBManager } from './database'
+
+// 所有绘版共用的冷却设置：命名等级和单个 UID 的覆盖，运行时修改后保存到数据库
+export class CooldownManager {
+	private db?: DBManager
+	private tiers: Map<string, CooldownPolicy>
+	private users: Map<number, UserCooldown>
+
+	constructor(db?: DBManager) {
+		this.db = db
+		this.tiers = db?.loadCooldownTiers() ?? new Map()
+		this.users = db?.loadUserCooldowns() ?? new Map()
+		if (db) {
+			logger.info(
+				`Loaded ${this.tiers.size} cooldown tiers and ${this.users.size} user cooldowns from database`
+			)
+		}
+	}
+
+	// UID 的冷却策略，所属等级已被删除时使用 fallback
+	public policyFor(uid: number, fallback: CooldownPolicy): CooldownPolicy {
+		const user = this.users.get(uid)
+		if (!user) return fallback
+		if (user.policy) return user.policy
+		return (user.tier !== null && this.tiers.get(user.tier)) || fallback
+	}
+
+	public hasTier(name: string): boolean {
+		return this.tiers.has(name)
+	}
+
+	public setTier(name: string, policy: CooldownPolicy) {
+		this.tiers.set(name, policy)
+		this.db?.saveCooldownTier(name, policy)
+		logger.info(`Set cooldown tier ${name}: burst ${policy.burst}, interval ${policy.interval}ms`)
+	}
+
+	// 删除等级，属于该等级的 UID 改用绘版的默认策略
+	public deleteTier(name: string): boolean {
+		if (!this.tiers.delete(name)) return false
+		this.db?.deleteCooldownTier(name)
+		logger.info(`Deleted cooldown tier ${name}`)
+		return true
+	}
+
+	// 设置 UID 的等级或单独的策略，都为空时恢复默认
+	public setUser(uid: number, cooldown: UserCooldown) {
+		if (cooldown.tier === null && cooldown.policy === null) {
+			this.users.delete(uid)
+			this.db?.deleteUserCooldown(uid)
+		} else {
+			this.users.set(uid, cooldown)
+			this.db?.saveUserCooldown(uid, cooldown)
+		}
+		logger.info(`Set cooldown of UID ${uid}: ${JSON.stringify(cooldown)}`)
+	}
+
+	public list(): {
+		tiers: ({ name: string } & CooldownPolicy)[]
+		users: ({ uid: number } & UserCooldown)[]
+	} {
+		return {
+			tiers: [...this.tiers].map(([name, policy]) => ({ name, ...policy })),
+			users: [...this.users].map(([uid, cooldown]) => ({ uid, ...cooldown }))
+		}
+	}
+}
@@ -1,5 +1,18 @@
 import { Database } from 'bun:sqlite'
-import { type Color, type Token } from './types'
+import { runMigrations } from './migrations'
+import { hashToken } from './tokens'
+import {
+	type Color,
+	type TokenInfo,
+	type PaintRecord,
+	type PixelData,
+	type Region,
+	type SnapshotInfo,
+	type BanInfo,
+	type CooldownPolicy,
+	type UserCooldown,
+	type ProtectedRegion
+} from './types'
 
 export class DBManager {
 	private db: Database
@@ -9,146 +22,551 @@ export class DBManager {
 	private loadTokensStmt: ReturnType<Database['prepare']>
 	private deleteTokensByUidStmt: ReturnType<Database['prepare']>
 	private deleteOldTokensStmt: ReturnType<Database['prepare']>
+	private deleteTokenStmt: ReturnType<Database['prepare']>
+	private deleteExpiredTokensStmt: ReturnType<Database['prepare']>
+	private insertHistoryStmt: ReturnType<Database['prepare']>
+	private loadLatestPaintsStmt: ReturnType<Database['prepare']>
+	private saveSnapshotStmt: ReturnType<Database['prepare']>
+	private listSnapshotsStmt: ReturnType<Database['prepare']>
+	private loadSnapshotStmt: ReturnType<Database['prepare']>
+	private snapshotBeforeStmt: ReturnType<Database['prepare']>
+	private deleteSnapshotStmt: ReturnType<Database['prepare']>
+	private lastHistoryIdStmt: ReturnType<Database['prepare']>
+	private historySinceStmt: ReturnType<Database['prepare']>
+	private saveUIDBanStmt: ReturnType<Database['prepare']>
+	private deleteUIDBanStmt: ReturnType<Database['prepare']>
+	private loadUIDBansStmt: ReturnType<Database['prepare']>
+	private saveIPBanStmt: ReturnType<Database['prepare']>
+	private deleteIPBanStmt: ReturnType<Database['prepare']>
+	private loadIPBansStmt: ReturnType<Database['prepare']>
+	private saveCooldownTierStmt: ReturnType<Database['prepare']>
+	private deleteCooldownTierStmt: ReturnType<Database['prepare']>
+	private loadCooldownTiersStmt: ReturnType<Database['prepare']>
+	private saveUserCooldownStmt: ReturnType<Database['prepare']>
+	private deleteUserCooldownStmt: ReturnType<Database['prepare']>
+	private loadUserCooldownsStmt: ReturnType<Database['prepare']>
+	private saveProtectedRegionStmt: ReturnType<Database['prepare']>
+	private deleteProtectedRegionStmt: ReturnType<Database['prepare']>
+	private loadProtectedRegionsStmt: ReturnType<Database['prepare']>
+	private paintsByBucketStmt: ReturnType<Database['prepare']>
 
-	constructor() {
-		this.db = new Database('data.db')
-		this.db.exec(`
-            CREATE TABLE IF NOT EXISTS board_data (
-                id INTEGER PRIMARY KEY CHECK (id = 1),
-                width INTEGER NOT NULL,
-                height INTEGER NOT NULL,
-                pixels BLOB NOT NULL
-            );
-            CREATE TABLE IF NOT EXISTS tokens (
-                token TEXT PRIMARY KEY,
-                uid INTEGER NOT NULL
-            );
-        `)
+	constructor(path: string) {
+		this.db = new Database(path)
+		this.db.exec('PRAGMA journal_mode = WAL')
+		runMigrations(this.db)
 
 		this.saveBoardStmt = this.db.prepare(
-			'INSERT OR REPLACE INTO board_data (id, width, height, pixels) VALUES (1, ?, ?, ?)'
+			'INSERT OR REPLACE INTO board_state (board, width, height, pixels, history_id) VALUES (?, ?, ?, ?, ?)'
 		)
 		this.loadBoardStmt = this.db.prepare(
-			'SELECT width, height, pixels FROM board_data WHERE id = 1'
+			'SELECT width, height, pixels, history_id AS historyId FROM board_state WHERE board = ?'
 		)
 		this.saveTokenStmt = this.db.prepare(
-			'INSERT OR REPLACE INTO tokens (token, uid) VALUES (?, ?)'
+			'INSERT OR REPLACE INTO tokens (token_hash, uid, issued_at, expires_at) VALUES (?, ?, ?, ?)'
+		)
+		this.loadTokensStmt = this.db.prepare(
+			'SELECT token_hash AS hash, uid, issued_at AS issuedAt, expires_at AS expiresAt FROM tokens ORDER BY issued_at'
 		)
-		this.loadTokensStmt = this.db.prepare('SELECT token, uid FROM tokens')
 		this.deleteTokensByUidStmt = this.db.prepare(
 			'DELETE FROM tokens WHERE uid = ?'
 		)
 		this.deleteOldTokensStmt = this.db.prepare(
-			'DELETE FROM tokens WHERE uid = ? AND token != ?'
+			'DELETE FROM tokens WHERE uid = ? AND token_hash != ?'
+		)
+		this.deleteTokenStmt = this.db.prepare('DELETE FROM tokens WHERE token_hash = ?')
+		this.deleteExpiredTokensStmt = this.db.prepare(
+			'DELETE FROM tokens WHERE expires_at IS NOT NULL AND expires_at <= ?'
+		)
+		this.insertHistoryStmt = this.db.prepare(
+			'INSERT INTO paint_history (board, x, y, color, uid, timestamp, conn_id, ip, operator, owner_uid, owner_timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+		)
+		// 每个像素最后一次绘画记录
+		this.loadLatestPaintsStmt = this.db.prepare(`
+            SELECT x, y, COALESCE(owner_uid, uid) AS uid, COALESCE(owner_timestamp, timestamp) AS timestamp
+            FROM paint_history
+            WHERE id IN (
+                SELECT MAX(id) FROM paint_history WHERE board = ? GROUP BY y, x
+            )
+        `)
+		this.saveSnapshotStmt = this.db.prepare(
+			'INSERT INTO board_snapshots (board, created_at, width, height, pixels, manual) VALUES (?, ?, ?, ?, ?, ?) RETURNING id'
+		)
+		this.listSnapshotsStmt = this.db.prepare(
+			'SELECT id, created_at AS createdAt, width, height, manual FROM board_snapshots WHERE board = ? ORDER BY created_at DESC'
+		)
+		this.loadSnapshotStmt = this.db.prepare(
+			'SELECT id, created_at AS createdAt, width, height, manual, pixels FROM board_snapshots WHERE board = ? AND id = ?'
+		)
+		this.snapshotBeforeStmt = this.db.prepare(
+			'SELECT created_at AS createdAt, pixels FROM board_snapshots WHERE board = ? AND created_at <= ? AND width = ? AND height = ? ORDER BY created_at DESC LIMIT 1'
+		)
+		this.deleteSnapshotStmt = this.db.prepare(
+			'DELETE FROM board_snapshots WHERE id = ?'
+		)
+		this.lastHistoryIdStmt = this.db.prepare(
+			'SELECT COALESCE(MAX(id), 0) AS id FROM paint_history WHERE board = ?'
+		)
+		this.historySinceStmt = this.db.prepare(
+			'SELECT x, y, color FROM paint_history WHERE board = ? AND id > ? ORDER BY id'
+		)
+		this.saveUIDBanStmt = this.db.prepare(
+			'INSERT OR REPLACE INTO uid_bans (uid, reason, issued_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+		)
+		this.deleteUIDBanStmt = this.db.prepare('DELETE FROM uid_bans WHERE uid = ?')
+		this.loadUIDBansStmt = this.db.prepare(
+			'SELECT uid, reason, issued_by AS issuedBy, created_at AS createdAt, expires_at AS expiresAt FROM uid_bans WHERE expires_at IS NULL OR expires_at > ?'
+		)
+		this.saveIPBanStmt = this.db.prepare(
+			'INSERT OR REPLACE INTO ip_bans (target, reason, issued_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+		)
+		this.deleteIPBanStmt = this.db.prepare('DELETE FROM ip_bans WHERE target = ?')
+		this.loadIPBansStmt = this.db.prepare(
+			'SELECT target, reason, issued_by AS issuedBy, created_at AS createdAt, expires_at AS expiresAt FROM ip_bans WHERE expires_at IS NULL OR expires_at > ?'
 		)
 
-		// 改为异步初始化
-		this.init()
-	}
+		this.saveCooldownTierStmt = this.db.prepare(
+			'INSERT OR REPLACE INTO cooldown_tiers (name, burst, interval) VALUES (?, ?, ?)'
+		)
+		this.deleteCooldownTierStmt = this.db.prepare(
+			'DELETE FROM cooldown_tiers WHERE name = ?'
+		)
+		this.loadCooldownTiersStmt = this.db.prepare(
+			'SELECT name, burst, interval FROM cooldown_tiers'
+		)
+		this.saveUserCooldownStmt = this.db.prepare(
+			'INSERT OR REPLACE INTO cooldown_users (uid, tier, burst, interval) VALUES (?, ?, ?, ?)'
+		)
+		this.deleteUserCooldownStmt = this.db.prepare(
+			'DELETE FROM cooldown_users WHERE uid = ?'
+		)
+		this.loadUserCooldownsStmt = this.db.prepare(
+			'SELECT uid, tier, burst, interval FROM cooldown_users'
+		)
+
+		this.saveProtectedRegionStmt = this.db.prepare(
+			'INSERT INTO protected_regions (board, x, y, width, height, mask, allowed_uids, reason, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id'
+		)
+		this.deleteProtectedRegionStmt = this.db.prepare(
+			'DELETE FROM protected_regions WHERE board = ? AND id = ?'
+		)
+		this.loadProtectedRegionsStmt = this.db.prepare(
+			'SELECT id, x, y, width, height, mask, allowed_uids AS allowedUids, reason, created_by AS createdBy, created_at AS createdAt FROM protected_regions WHERE board = ? ORDER BY id'
+		)
+
+		// 管理员写入的 conn_id 为 0，不计入绘画次数
+		this.paintsByBucketStmt = this.db.prepare(
+			'SELECT uid, timestamp / ? AS bucket, COUNT(*) AS paints, MAX(timestamp) AS lastPaint FROM paint_history WHERE board = ? AND conn_id != 0 GROUP BY uid, bucket'
+		)
 
-	private async init() {
-		await this.migrateOldTokens()
 		// 初始化时执行一次清理
 		this.cleanupDuplicateTokens()
 	}
 
-	private async migrateOldTokens() {
+	// 从 LSP-Reforged 数据库导入 Token，返回导入的数量；导入的 Token 永不过期
+	public importLSPTokens(path: string): number {
+		const oldDb = new Database(path, { readonly: true })
 		try {
-			const oldDbPath = './liucang.db'
-			if (!(await Bun.file(oldDbPath).exists())) {
-				return
-			}
-
-			const oldDb = new Database(oldDbPath, { readonly: true })
 			const tokens = oldDb.query('SELECT uid, token FROM tokens').all() as {
 				uid: number
 				token: string
 			}[]
 
+			const now = Date.now()
 			this.db.transaction(() => {
 				for (const { uid, token } of tokens) {
-					this.saveTokenStmt.run(token, uid)
+					this.saveTokenStmt.run(hashToken(token), uid, now, null)
 				}
 			})()
-
+			this.cleanupDuplicateTokens()
+			return tokens.length
+		} finally {
 			oldDb.close()
-			console.info(
-				`Successfully migrated ${tokens.length} tokens from old database`
-			)
-		} catch (error) {
-			console.error(error, 'Error migrating tokens from old database')
 		}
 	}
 
-	public saveBoard(pixels: Uint8Array, width: number, height: number) {
-		this.saveBoardStmt.run(width, height, pixels)
+	// historyId 为已合并进这次完整保存的最后一条绘画历史
+	public saveBoard(
+		board: string,
+		pixels: Uint8Array,
+		width: number,
+		height: number,
+		historyId: number
+	) {
+		this.saveBoardStmt.run(board, width, height, pixels, historyId)
 	}
 
-	public loadBoard(): {
+	public loadBoard(board: string): {
 		width: number
 		height: number
 		pixels: Uint8Array
+		historyId: number
 	} | null {
-		const row = this.loadBoardStmt.get() as
-			| { width: number; height: number; pixels: Buffer }
+		const row = this.loadBoardStmt.get(board) as
+			| { width: number; height: number; pixels: Buffer; historyId: number }
 			| undefined
 		if (!row) return null
 
 		return {
 			width: row.width,
 			height: row.height,
+			pixels: new Uint8Array(row.pixels),
+			historyId: row.historyId
+		}
+	}
+
+	public lastHistoryId(board: string): number {
+		return (this.lastHistoryIdStmt.get(board) as { id: number }).id
+	}
+
+	// 按顺序遍历某条记录之后的全部绘画历史，用于重放
+	public historySince(
+		board: string,
+		historyId: number
+	): IterableIterator<{ x: number; y: number; color: number }> {
+		return this.historySinceStmt.iterate(board, historyId) as IterableIterator<{
+			x: number
+			y: number
+			color: number
+		}>
+	}
+
+	public saveSnapshot(
+		board: string,
+		pixels: Uint8Array,
+		width: number,
+		height: number,
+		createdAt: number,
+		manual: boolean
+	): number {
+		const row = this.saveSnapshotStmt.get(
+			board,
+			createdAt,
+			width,
+			height,
+			pixels,
+			manual ? 1 : 0
+		) as { id: number }
+		return row.id
+	}
+
+	public listSnapshots(board: string): SnapshotInfo[] {
+		const rows = this.listSnapshotsStmt.all(board) as (Omit<SnapshotInfo, 'manual'> & {
+			manual: number
+		})[]
+		return rows.map(row => ({ ...row, manual: row.manual === 1 }))
+	}
+
+	public loadSnapshot(
+		board: string,
+		id: number
+	): (SnapshotInfo & { pixels: Uint8Array }) | null {
+		const row = this.loadSnapshotStmt.get(board, id) as
+			| (Omit<SnapshotInfo, 'manual'> & { manual: number; pixels: Buffer })
+			| undefined
+		if (!row) return null
+
+		return {
+			...row,
+			manual: row.manual === 1,
 			pixels: new Uint8Array(row.pixels)
 		}
 	}
 
-	public saveToken(token: Token) {
-		// 在保存新token之前，删除该UID的所有其他token
+	// time 之前最近的、尺寸相同的快照，用于重放历史的起点
+	public snapshotBefore(
+		board: string,
+		time: number,
+		width: number,
+		height: number
+	): { createdAt: number; pixels: Uint8Array } | null {
+		const row = this.snapshotBeforeStmt.get(board, time, width, height) as
+			| { createdAt: number; pixels: Buffer }
+			| undefined
+		if (!row) return null
+		return { createdAt: row.createdAt, pixels: new Uint8Array(row.pixels) }
+	}
+
+	public deleteSnapshots(ids: number[]) {
 		this.db.transaction(() => {
-			this.deleteOldTokensStmt.run(token.uid, token.token)
-			this.saveTokenStmt.run(token.token, token.uid)
+			for (const id of ids) {
+				this.deleteSnapshotStmt.run(id)
+			}
 		})()
 	}
 
-	public loadTokens(): Map<string, Token> {
-		const tokens = new Map<string, Token>()
-		const rows = this.loadTokensStmt.all() as {
-			token: string
+	public appendHistory(board: string, records: PaintRecord[]) {
+		// 一个服务器刻的记录在同一事务中写入
+		this.db.transaction(() => {
+			for (const r of records) {
+				this.insertHistoryStmt.run(
+					board,
+					r.x,
+					r.y,
+					(r.color.r << 16) | (r.color.g << 8) | r.color.b,
+					r.uid,
+					r.timestamp,
+					r.connId,
+					r.ip,
+					r.operator ?? null,
+					r.owner?.uid ?? null,
+					r.owner?.timestamp ?? null
+				)
+			}
+		})()
+	}
+
+	// 从绘画历史重建每个像素的最后绘画者
+	public loadVis(board: string, width: number, height: number): PixelData[] {
+		const vis: PixelData[] = new Array(width * height).fill({
+			uid: 0,
+			timestamp: 0
+		})
+		const rows = this.loadLatestPaintsStmt.iterate(board) as IterableIterator<{
+			x: number
+			y: number
 			uid: number
-		}[]
+			timestamp: number
+		}>
+		for (const row of rows) {
+			if (row.x >= width || row.y >= height) continue
+			vis[row.y * width + row.x] = { uid: row.uid, timestamp: row.timestamp }
+		}
+		return vis
+	}
 
-		// 创建一个临时Map来存储每个UID最后一个Token
-		const uidLastToken = new Map<number, Token>()
+	// 按 UID 和时间段汇总绘画次数，bucket 为时间段的序号 (timestamp / bucketSize)
+	public paintsByBucket(
+		board: string,
+		bucketSize: number
+	): { uid: number; bucket: number; paints: number; lastPaint: number }[] {
+		return this.paintsByBucketStmt.all(bucketSize, board) as {
+			uid: number
+			bucket: number
+			paints: number
+			lastPaint: number
+		}[]
+	}
 
-		for (const row of rows) {
-			uidLastToken.set(row.uid, {
-				token: row.token,
-				uid: row.uid
-			})
+	// 指定 UID 在时间段和区域内画过的像素的完整绘画历史，按像素分组，组内从新到旧
+	// owner 为该记录写入后像素的归属
+	public paintedPixelHistory(
+		board: string,
+		uids: number[],
+		startTime: number,
+		endTime: number,
+		region?: Region
+	): { x: number; y: number; color: Color; uid: number; timestamp: number; owner: PixelData }[] {
+		let painted = `SELECT DISTINCT y, x FROM paint_history WHERE board = ? AND uid IN (${uids
+			.map(() => '?')
+			.join(', ')}) AND timestamp >= ? AND timestamp <= ?`
+		const params: (string | number)[] = [board, ...uids, startTime, endTime]
+		if (region) {
+			painted += ' AND x >= ? AND x < ? AND y >= ? AND y < ?'
+			params.push(
+				region.x,
+				region.x + region.width,
+				region.y,
+				region.y + region.height
+			)
 		}
+		const rows = this.db
+			.query(
+				`SELECT x, y, color, uid, timestamp, owner_uid AS ownerUid, owner_timestamp AS ownerTimestamp FROM paint_history WHERE board = ? AND (y, x) IN (${painted}) ORDER BY y, x, id DESC`
+			)
+			.all(board, ...params) as {
+			x: number
+			y: number
+			color: number
+			uid: number
+			timestamp: number
+			ownerUid: number | null
+			ownerTimestamp: number | null
+		}[]
+		return rows.map(row => ({
+			x: row.x,
+			y: row.y,
+			color: {
+				r: (row.color >> 16) & 255,
+				g: (row.color >> 8) & 255,
+				b: row.color & 255
+			},
+			uid: row.uid,
+			timestamp: row.timestamp,
+			owner: {
+				uid: row.ownerUid ?? row.uid,
+				timestamp: row.ownerTimestamp ?? row.timestamp
+			}
+		}))
+	}
+
+	public saveUIDBan(uid: number, ban: BanInfo) {
+		this.saveUIDBanStmt.run(
+			uid,
+			ban.reason,
+			ban.issuedBy,
+			ban.createdAt,
+			ban.expiresAt
+		)
+	}
+
+	public deleteUIDBan(uid: number) {
+		this.deleteUIDBanStmt.run(uid)
+	}
+
+	// 只加载未过期的封禁
+	public loadUIDBans(): Map<number, BanInfo> {
+		const rows = this.loadUIDBansStmt.all(Date.now()) as ({
+			uid: number
+		} & BanInfo)[]
+		return new Map(rows.map(({ uid, ...ban }) => [uid, ban]))
+	}
+
+	public saveCooldownTier(name: string, policy: CooldownPolicy) {
+		this.saveCooldownTierStmt.run(name, policy.burst, policy.interval)
+	}
+
+	public deleteCooldownTier(name: string) {
+		this.deleteCooldownTierStmt.run(name)
+	}
+
+	public loadCooldownTiers(): Map<string, CooldownPolicy> {
+		const rows = this.loadCooldownTiersStmt.all() as ({
+			name: string
+		} & CooldownPolicy)[]
+		return new Map(rows.map(({ name, ...policy }) => [name, policy]))
+	}
+
+	public saveUserCooldown(uid: number, cooldown: UserCooldown) {
+		this.saveUserCooldownStmt.run(
+			uid,
+			cooldown.tier,
+			cooldown.policy?.burst ?? null,
+			cooldown.policy?.interval ?? null
+		)
+	}
+
+	public deleteUserCooldown(uid: number) {
+		this.deleteUserCooldownStmt.run(uid)
+	}
+
+	public loadUserCooldowns(): Map<number, UserCooldown> {
+		const rows = this.loadUserCooldownsStmt.all() as {
+			uid: number
+			tier: string | null
+			burst: number | null
+			interval: number | null
+		}[]
+		return new Map(
+			rows.map(({ uid, tier, burst, interval }) => [
+				uid,
+				{
+					tier,
+					policy:
+						burst !== null && interval !== null ? { burst, interval } : null
+				}
+			])
+		)
+	}
+
+	// 返回新区域的 id
+	public saveProtectedRegion(
+		board: string,
+		region: Omit<ProtectedRegion, 'id'>
+	): number {
+		const row = this.saveProtectedRegionStmt.get(
+			board,
+			region.x,
+			region.y,
+			region.width,
+			region.height,
+			region.mask,
+			JSON.stringify(region.allowedUids),
+			region.reason,
+			region.createdBy,
+			region.createdAt
+		) as { id: number }
+		return row.id
+	}
+
+	public deleteProtectedRegion(board: string, id: number) {
+		this.deleteProtectedRegionStmt.run(board, id)
+	}
+
+	public loadProtectedRegions(board: string): ProtectedRegion[] {
+		const rows = this.loadProtectedRegionsStmt.all(board) as (Omit<
+			ProtectedRegion,
+			'allowedUids'
+		> & { allowedUids: string })[]
+		return rows.map(row => ({
+			...row,
+			mask: row.mask && new Uint8Array(row.mask),
+			allowedUids: JSON.parse(row.allowedUids)
+		}))
+	}
+
+	public saveIPBan(target: string, ban: BanInfo) {
+		this.saveIPBanStmt.run(
+			target,
+			ban.reason,
+			ban.issuedBy,
+			ban.createdAt,
+			ban.expiresAt
+		)
+	}
 
-		// 只保留每个UID的最后一个Token
-		for (const token of uidLastToken.values()) {
-			tokens.set(token.token, token)
+	public deleteIPBan(target: string) {
+		this.deleteIPBanStmt.run(target)
+	}
+
+	public loadIPBans(): Map<string, BanInfo> {
+		const rows = this.loadIPBansStmt.all(Date.now()) as ({
+			target: string
+		} & BanInfo)[]
+		return new Map(rows.map(({ target, ...ban }) => [target, ban]))
+	}
+
+	public saveToken(hash: string, token: TokenInfo) {
+		// 在保存新token之前，删除该UID的所有其他token
+		this.db.transaction(() => {
+			this.deleteOldTokensStmt.run(token.uid, hash)
+			this.saveTokenStmt.run(hash, token.uid, token.issuedAt, token.expiresAt)
+		})()
+	}
+
+	// 加载未过期的 Token，键为 Token 的哈希
+	public loadTokens(): Map<string, TokenInfo> {
+		this.deleteExpiredTokensStmt.run(Date.now())
+		const rows = this.loadTokensStmt.all() as ({ hash: string } & TokenInfo)[]
+
+		// 每个UID只保留最后签发的Token
+		const uidLastToken = new Map<number, { hash: string } & TokenInfo>()
+		for (const row of rows) {
+			uidLastToken.set(row.uid, row)
 		}
 
-		return tokens
+		return new Map(
+			[...uidLastToken.values()].map(({ hash, ...token }) => [hash, token])
+		)
 	}
 
 	public deleteTokensByUid(uid: number) {
 		this.deleteTokensByUidStmt.run(uid)
 	}
 
+	public deleteToken(hash: string) {
+		this.deleteTokenStmt.run(hash)
+	}
+
 	public cleanupDuplicateTokens() {
-		// 清理数据库中的重复UID token
+		// 清理数据库中的重复UID token，保留最后签发的
 		this.db.exec(`
-            WITH latest_tokens AS (
-                SELECT uid, MAX(token) as token
-                FROM tokens
-                GROUP BY uid
-            )
-            DELETE FROM tokens 
-            WHERE (uid, token) NOT IN (
-                SELECT uid, token FROM latest_tokens
+            DELETE FROM tokens
+            WHERE EXISTS (
+                SELECT 1 FROM tokens AS newer
+                WHERE newer.uid = tokens.uid AND (
+                    newer.issued_at > tokens.issued_at OR
+                    (newer.issued_at = tokens.issued_at AND newer.token_hash > tokens.token_hash)
+                )
             )
         `)
 	}
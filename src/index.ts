@@ -1,8 +1,15 @@
-import { z } from 'zod'
-import { parse as parseYaml } from 'yaml'
 import pino from 'pino'
+import { loadConfig, resolveBoards, type Config } from './config'
 import { PaintBoardManager } from './paintboard'
-import { type TokenRequest, PaintResultCode, type WebSocketData, type BanUidData, type QueryVisData } from './types'
+import { DBManager } from './database'
+import { BanManager } from './bans'
+import { CooldownManager } from './cooldown'
+import { TokenManager, hashToken } from './tokens'
+import { createAuthProvider } from './auth'
+import { ResponseCache } from './cache'
+import { RateLimiter, FailureCache } from './ratelimit'
+import { renderTimelapse, checkTimelapseOptions } from './timelapse'
+import { type TokenRequest, PaintResultCode, type WebSocketData, type BanUidData, type TokenAdminData, type BanIpData, type CooldownData, type CooldownPolicy, type QueryVisData, type OwnershipData, type OwnershipSummary, type PixelData, type RollbackData, type StampData, type SnapshotData, type ProtectData, type ProtectedRegion, type TimelapseData, type CompressionAlgorithm, type Color, type Region, type ImageFormat, Capability, PROTOCOL_VERSION } from './types'
 import Bun from 'bun'
 import workerpool from 'workerpool'
 
@@ -26,34 +33,9 @@ const pool = workerpool.pool({
 })
 globalThis.pool = pool
 
-const configSchema = z.strictObject({
-	logLevel: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']),
-	port: z.number(),
-	paintDelay: z.number().min(0),
-	useDB: z.boolean().default(false),
-	width: z.number().min(1).default(1000),
-	height: z.number().min(1).default(600),
-	clearBoard: z.boolean().default(false),
-	validationPaste: z.string().default('IkaPaintBoard'),
-	key: z.string().optional(),
-	cert: z.string().optional(),
-	maxWebSocketPerIP: z.number().min(0).default(0),
-	banDuration: z.number().min(0).default(60000),
-	ticksPerSecond: z.number().min(1).default(128),
-	maxPacketPerSecond: z.number().min(1).default(128),
-	enableTokenCounting: z.boolean().default(false),
-	maxAllowedUID: z.number().optional(),
-	rootToken: z.string().optional(),
-	activityStartTime: z.number().default(0),
-	activityEndTime: z.number().default(1767196800000),
-	allowQuery: z.boolean().default(false),
-})
-
-let config: z.infer<typeof configSchema>
+let config: Config
 try {
-	const configFile = await Bun.file('./config.yml').text()
-	const parsedConfig = parseYaml(configFile)
-	config = configSchema.parse(parsedConfig)
+	config = await loadConfig()
 	logger.info({ config }, 'Config loaded')
 } catch (error) {
 	logger.error({ error }, 'Unable to load config')
@@ -83,41 +65,57 @@ let webSocketConnectionCount = 0
 // IP 连接统计
 const ipConnections = new Map<string, Bun.ServerWebSocket<WebSocketData>[]>()
 
-// IP 封禁记录
-const bannedIPs = new Map<string, number>()
+const db = config.useDB ? new DBManager(config.dbPath) : undefined
 
-// UID 封禁记录
-const bannedUIDs = new Set<number>()
+// UID 与 IP 封禁记录，启用数据库时持久化
+const bans = new BanManager(db)
+
+// 冷却等级与 UID 的冷却设置，启用数据库时持久化
+const cooldowns = new CooldownManager(db)
 
 // 检查 IP 是否被封禁
 function isBanned(ip: string): boolean {
-	const banUntil = bannedIPs.get(ip)
-	if (!banUntil) return false
-
-	if (Date.now() >= banUntil) {
-		bannedIPs.delete(ip)
-		return false
-	}
-	return true
+	return bans.isIPBanned(ip)
 }
 
-// 封禁指定 IP
-function banIP(ip: string) {
-	bannedIPs.set(ip, Date.now() + config.banDuration)
-	logger.warn(`IP ${ip} banned for ${config.banDuration}ms`)
+// 自动封禁指定 IP，只保存在内存中，重启后失效
+function banIP(ip: string, reason: string, duration: number) {
+	bans.banIP(ip, reason, 'system', duration, false)
 }
 
 // 添加全局计数器
 let globalPacketsReceived = 0
 let globalPacketsSent = 0
+let globalBytesBeforeCompression = 0
+let globalBytesAfterCompression = 0
+
+// gettoken 限流：每个 IP、每个 UID 一个令牌桶，相同的失败请求短期内直接返回缓存的错误
+const gettokenIPLimiter = new RateLimiter(config.gettokenIPBurst, config.gettokenIPInterval)
+const gettokenUIDLimiter = new RateLimiter(config.gettokenUIDBurst, config.gettokenUIDInterval)
+const failedValidations = new FailureCache<string>(config.gettokenFailureCacheTTL)
+let pendingValidations = 0 // 正在进行的身份验证数
+// 各项 gettoken 限制被触发的次数
+const gettokenLimitHits = { ip: 0, uid: 0, concurrency: 0, cachedFailure: 0 }
+
+// 主题变体 (topic@seq、topic#algorithm) 的订阅连接数，没有订阅者时不发布
+const variantSubscribers = new Map<string, number>()
+const compressionAlgorithms: CompressionAlgorithm[] = ['deflate', 'zstd']
+
+// 0xec 返回的每一帧最多包含的像素字节数 (压缩前)
+const boardFrameBytes = 262144
+
+// 绑定了某个 Token 的连接，键为 Token 的哈希，Token 失效时通知这些连接
+const boundConnections = new Map<string, Set<Bun.ServerWebSocket<WebSocketData>>>()
 
 // 添加服务器刻追踪
 let lastTick = 0
 
 let nextConnId = 1
 
+const serverVersion: string = (await Bun.file('./package.json').json()).version
+
 const server = Bun.serve<WebSocketData>({
-	static: {
+	routes: {
 		'/api': new Response(':(', {
 			headers: {
 				'Access-Control-Allow-Origin': '*'
@@ -137,14 +135,19 @@ const server = Bun.serve<WebSocketData>({
 		const ip = server.requestIP(req)
 
 		// 检查是否被封禁
-		if (ip && isBanned(ip.address)) {
+		const ipBan = ip && bans.getIPBan(ip.address)
+		if (ipBan) {
 			return new Response('Too Many Requests', {
 				status: 429,
 				headers: {
 					'Access-Control-Allow-Origin': '*',
-					'Retry-After': Math.ceil(
-						(bannedIPs.get(ip.address)! - Date.now()) / 1000
-					).toString()
+					...(ipBan.expiresAt !== null
+						? {
+								'Retry-After': Math.ceil(
+									(ipBan.expiresAt - Date.now()) / 1000
+								).toString()
+						  }
+						: {})
 				}
 			})
 		}
@@ -161,14 +164,38 @@ const server = Bun.serve<WebSocketData>({
 		}
 
 		const url = new URL(req.url)
+		const route = resolveBoardRoute(url.pathname)
+
+		if (url.pathname === '/api/boards') {
+			return new Response(JSON.stringify({
+				statusCode: 200,
+				data: {
+					defaultBoard: config.defaultBoard,
+					boards: [...boards.values()].map(board => ({
+						name: board.name,
+						width: board.width,
+						height: board.height,
+						activityStartTime: board.activityStartTime,
+						activityEndTime: board.activityEndTime
+					}))
+				}
+			}), {
+				headers: {
+					'Content-Type': 'application/json',
+					'Access-Control-Allow-Origin': '*'
+				}
+			})
+		}
 
 		// WebSocket 升级请求处理
-		if (url.pathname === '/api/paintboard/ws') {
+		if (route?.action === 'ws') {
 			if (
+				// 其余字段在 open 中初始化
 				server.upgrade(req, {
 					data: {
-						connectedAt: Date.now()
-					}
+						connectedAt: Date.now(),
+						board: route.board.name
+					} as WebSocketData
 				})
 			) {
 				return
@@ -182,76 +209,311 @@ const server = Bun.serve<WebSocketData>({
 		}
 
 		// HTTP API 处理
-		if (url.pathname === '/api/paintboard/getboard') {
-			const startTime = Date.now()
-			const [compressed, bufferSize] = await pool.exec<
-				// 这脑残 WorkerPool 没有原生类型支持
-				(
-					arg0: SharedArrayBuffer,
-					arg1: number,
-					arg2: number
-				) => [Uint8Array, number]
-			>(
-				(pixels: SharedArrayBuffer, width: number, height: number) => {
-					const gzipped = Bun.gzipSync(new Uint8Array(pixels))
-					return [gzipped, width * height * 3]
+		if (route?.action === 'getboard') {
+			const board = route.board
+			const encoding = negotiateEncoding(req.headers.get('Accept-Encoding'))
+			return await cachedResponse(
+				req,
+				board,
+				`board-${encoding}`,
+				async () => {
+					if (encoding === 'identity') return new Uint8Array(board.getBoardBuffer())
+					const startTime = Date.now()
+					const [compressed, bufferSize] = await pool.exec<
+						// 这脑残 WorkerPool 没有原生类型支持
+						(
+							arg0: SharedArrayBuffer,
+							arg1: number,
+							arg2: number,
+							arg3: string
+						) => Promise<[Uint8Array, number]>
+					>(
+						async (
+							pixels: SharedArrayBuffer,
+							width: number,
+							height: number,
+							encoding: string
+						) => {
+							// 复制出 SharedArrayBuffer 再压缩，压缩期间绘版的变化不会混入结果
+							const data = new Uint8Array(pixels).slice()
+							if (encoding === 'zstd') {
+								return [new Uint8Array(Bun.zstdCompressSync(data)), width * height * 3]
+							}
+							return [Bun.gzipSync(data), width * height * 3]
+						},
+						[board.getSharedArrayBuffer(), board.width, board.height, encoding]
+					)
+					logger.debug(
+						`getboard: ${Date.now() - startTime}ms (${encoding}) ${bufferSize} -> ${
+							compressed.length
+						} (${(compressed.length / bufferSize).toFixed(2)}x)`
+					)
+					return compressed
 				},
-				[paintboard.getSharedArrayBuffer(), config.width, config.height]
+				{
+					'Content-Type': 'application/octet-stream',
+					Vary: 'Accept-Encoding',
+					...(encoding === 'identity' ? {} : { 'Content-Encoding': encoding })
+				}
 			)
-			logger.debug(
-				`getboard: ${Date.now() - startTime}ms (gzip) ${bufferSize} -> ${
-					compressed.length
-				} (${(compressed.length / bufferSize).toFixed(2)}x)`
+		}
+
+		if (route?.action === 'getimage') {
+			const board = route.board
+			// ?format=png 时导出 PNG，有调色板时为索引色
+			if (url.searchParams.get('format') === 'png') {
+				return await cachedResponse(
+					req,
+					board,
+					'image-png',
+					() =>
+						renderImage(
+							new Uint8Array(board.getBoardBuffer()),
+							board.width,
+							board.height,
+							'png',
+							1,
+							board.palette
+						),
+					{
+						'Content-Type': 'image/png'
+					}
+				)
+			}
+			return await cachedResponse(
+				req,
+				board,
+				'image-webp',
+				async () => {
+					const startTime = Date.now()
+					const [compressed, bufferSize] = await pool.exec<
+						(
+							arg0: SharedArrayBuffer,
+							arg1: number,
+							arg2: number
+						) => Promise<[Buffer, number]>
+					>(
+						async (pixels: SharedArrayBuffer, width: number, height: number) => {
+							const sharp = await import('sharp')
+							const image = sharp.default(new Uint8Array(pixels), {
+								raw: {
+									width,
+									height,
+									channels: 3
+								}
+							})
+							const webpBuffer = await image.webp({ lossless: true }).toBuffer()
+							return [webpBuffer, width * height * 3]
+						},
+						[board.getSharedArrayBuffer(), board.width, board.height]
+					)
+					logger.debug(
+						`getimage: ${
+							Date.now() - startTime
+						}ms (webp-lossless) ${bufferSize} -> ${compressed.length} (${(
+							compressed.length / bufferSize
+						).toFixed(2)}x)`
+					)
+					return new Uint8Array(compressed)
+				},
+				{
+					'Content-Type': 'image/webp'
+				}
+			)
+		}
+
+		// 图块：?x=&y=&w=&h=&scale=&format=，scale 为整数倍放大
+		if (route?.action === 'gettile') {
+			const board = route.board
+			const params = url.searchParams
+			const x = Number(params.get('x') ?? 0)
+			const y = Number(params.get('y') ?? 0)
+			const w = Number(params.get('w') ?? board.width - x)
+			const h = Number(params.get('h') ?? board.height - y)
+			const scale = Number(params.get('scale') ?? 1)
+			const format = (params.get('format') ?? 'png') as ImageFormat
+			if (
+				![x, y, w, h, scale].every(Number.isInteger) ||
+				x < 0 ||
+				y < 0 ||
+				w < 1 ||
+				h < 1 ||
+				x + w > board.width ||
+				y + h > board.height ||
+				scale < 1 ||
+				w * scale > config.maxTileSize ||
+				h * scale > config.maxTileSize ||
+				!['raw', 'png', 'webp'].includes(format)
+			) {
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+
+			return await cachedResponse(
+				req,
+				board,
+				`tile-${x}-${y}-${w}-${h}-${scale}-${format}`,
+				() =>
+					renderImage(
+						board.readRegion({ x, y, width: w, height: h }),
+						w,
+						h,
+						format,
+						scale,
+						board.palette
+					),
+				{
+					'Content-Type':
+						format === 'raw' ? 'application/octet-stream' : `image/${format}`
+				}
 			)
-			return new Response(compressed, {
+		}
+
+		if (route?.action === 'getpalette') {
+			const board = route.board
+			return new Response(JSON.stringify({
+				statusCode: 200,
+				data: {
+					palette:
+						board.palette?.map(color => `#${color.toString(16).padStart(6, '0')}`) ??
+						null,
+					policy: board.palettePolicy
+				}
+			}), {
+				status: 200,
 				headers: {
-					'Content-Type': 'application/octet-stream',
-					'Access-Control-Allow-Origin': '*',
-					'Content-Encoding': 'gzip'
+					'Content-Type': 'application/json',
+					'Access-Control-Allow-Origin': '*'
 				}
 			})
 		}
 
-		if (url.pathname === '/api/paintboard/getimage') {
-			const startTime = Date.now()
-			const [compressed, bufferSize] = await pool.exec<
-				(
-					arg0: SharedArrayBuffer,
-					arg1: number,
-					arg2: number
-				) => Promise<[Buffer, number]>
-			>(
-				async (pixels: SharedArrayBuffer, width: number, height: number) => {
-					const sharp = await import('sharp')
-					const image = sharp.default(new Uint8Array(pixels), {
-						raw: {
-							width,
-							height,
-							channels: 3
-						}
-					})
-					const webpBuffer = await image.webp({ lossless: true }).toBuffer()
-					return [webpBuffer, width * height * 3]
-				},
-				[paintboard.getSharedArrayBuffer(), config.width, config.height]
-			)
-			logger.debug(
-				`getimage: ${
-					Date.now() - startTime
-				}ms (webp-lossless) ${bufferSize} -> ${compressed.length} (${(
-					compressed.length / bufferSize
-				).toFixed(2)}x)`
+		// 排行榜：?type=paints|pixels&limit=，按绘画次数或当前拥有的像素数
+		if (route?.action === 'getleaderboard') {
+			const board = route.board
+			const params = url.searchParams
+			const type = params.get('type') ?? 'paints'
+			const limit = Number(params.get('limit') ?? 10)
+			if (
+				(type !== 'paints' && type !== 'pixels') ||
+				!Number.isInteger(limit) ||
+				limit < 1 ||
+				limit > 100
+			) {
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+
+			return await cachedResponse(
+				req,
+				board,
+				`leaderboard-${type}-${limit}`,
+				async () =>
+					new TextEncoder().encode(
+						JSON.stringify({
+							statusCode: 200,
+							data: board.stats.leaderboard(type, limit)
+						})
+					),
+				{
+					'Content-Type': 'application/json'
+				}
 			)
-			return new Response(compressed, {
+		}
+
+		// 最近 minutes 分钟内画过的 UID 数
+		if (route?.action === 'getactive') {
+			const board = route.board
+			const minutes = Number(url.searchParams.get('minutes') ?? 10)
+			if (!Number.isInteger(minutes) || minutes < 1 || minutes > 10080) {
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+			return new Response(JSON.stringify({
+				statusCode: 200,
+				data: {
+					minutes,
+					count: board.stats.activePainters(minutes * 60000)
+				}
+			}), {
+				status: 200,
+				headers: {
+					'Content-Type': 'application/json',
+					'Access-Control-Allow-Origin': '*'
+				}
+			})
+		}
+
+		// 时间段内绘画次数最多的 UID：?start=&end=&limit=，默认为最近 24 小时
+		if (route?.action === 'gettop') {
+			const board = route.board
+			const params = url.searchParams
+			const end = Number(params.get('end') ?? Date.now())
+			const start = Number(params.get('start') ?? end - 86400000)
+			const limit = Number(params.get('limit') ?? 10)
+			if (
+				![start, end, limit].every(Number.isInteger) ||
+				start < 0 ||
+				start > end ||
+				limit < 1 ||
+				limit > 100
+			) {
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+			return new Response(JSON.stringify({
+				statusCode: 200,
+				data: board.stats.topContributors(start, end, limit)
+			}), {
+				status: 200,
+				headers: {
+					'Content-Type': 'application/json',
+					'Access-Control-Allow-Origin': '*'
+				}
+			})
+		}
+
+		if (route?.action === 'getuserstats') {
+			const board = route.board
+			const uid = Number(url.searchParams.get('uid'))
+			if (!Number.isInteger(uid) || uid < 1 || uid > 0xffffff) {
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+			return new Response(JSON.stringify({
+				statusCode: 200,
+				data: board.stats.userStats(uid)
+			}), {
+				status: 200,
 				headers: {
-					'Content-Type': 'image/webp',
+					'Content-Type': 'application/json',
 					'Access-Control-Allow-Origin': '*'
 				}
 			})
 		}
 
 		if (url.pathname === '/api/auth/gettoken' && req.method === 'POST') {
-			return await handleTokenRequest(req)
+			return await handleTokenRequest(req, ip?.address)
 		}
 		
 		if (url.pathname === '/api/root/banuid' && req.method === 'POST') {
@@ -265,8 +527,20 @@ const server = Bun.serve<WebSocketData>({
 						}
 					})
 				}
-				bannedUIDs.add(body.uid)
-				logger.info(`Banned UID ${body.uid}`)
+				// 封禁时长不填为永久，填写时须为正整数
+				if (
+					!Number.isInteger(body.uid) ||
+					(body.duration !== undefined &&
+						(!Number.isInteger(body.duration) || body.duration <= 0))
+				) {
+					throw new Error('Invalid uid or duration')
+				}
+				bans.banUID(
+					body.uid,
+					body.reason ?? '',
+					body.operator ?? 'root',
+					body.duration
+				)
 				return new Response('OK', {
 					status: 200,
 					headers: {
@@ -293,7 +567,10 @@ const server = Bun.serve<WebSocketData>({
 						}
 					})
 				}
-				bannedUIDs.delete(body.uid)
+				if (!Number.isInteger(body.uid)) {
+					throw new Error('Invalid uid')
+				}
+				bans.pardonUID(body.uid)
 				logger.info(`Pardoned UID ${body.uid}`)
 				return new Response('OK', {
 					status: 200,
@@ -311,30 +588,807 @@ const server = Bun.serve<WebSocketData>({
 			}
 		}
 
-		if (url.pathname === '/api/root/queryvis' && req.method === 'POST') {
-			try {
-				const body = (await req.json()) as QueryVisData
-				if (body.token !== config.rootToken) {
-					return new Response('Forbidden', {
-						status: 403,
+		if (url.pathname === '/api/root/revoketokens' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as TokenAdminData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				if (!Number.isInteger(body.uid)) throw new Error('Invalid UID')
+				const revoked = tokens.revokeUID(body.uid!)
+				return new Response(JSON.stringify({
+					statusCode: 200,
+					data: { revoked }
+				}), {
+					status: 200,
+					headers: {
+						'Content-Type': 'application/json',
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+		if (url.pathname === '/api/root/listtokens' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as TokenAdminData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				return new Response(JSON.stringify({
+					statusCode: 200,
+					data: tokens.listTokens(body.uid)
+				}), {
+					status: 200,
+					headers: {
+						'Content-Type': 'application/json',
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname === '/api/root/banip' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as BanIpData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				if (
+					body.duration !== undefined &&
+					(!Number.isInteger(body.duration) || body.duration <= 0)
+				) {
+					throw new Error('Invalid duration')
+				}
+				if (
+					typeof body.ip !== 'string' ||
+					!bans.banIP(
+						body.ip,
+						body.reason ?? '',
+						body.operator ?? 'root',
+						body.duration
+					)
+				) {
+					throw new Error('Invalid IP or CIDR')
+				}
+				// 断开被封禁范围内的所有连接
+				for (const [connIp, connections] of ipConnections) {
+					if (!bans.matches(body.ip, connIp)) continue
+					for (const conn of connections) {
+						conn.close(1008, 'IP is banned')
+					}
+					ipConnections.delete(connIp)
+				}
+				return new Response('OK', {
+					status: 200,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+		if (url.pathname === '/api/root/pardonip' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as BanIpData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				if (typeof body.ip !== 'string' || !bans.isValidTarget(body.ip)) {
+					throw new Error('Invalid IP or CIDR')
+				}
+				const pardoned = bans.pardonIP(body.ip)
+				logger.info(`Pardoned IP ${body.ip}`)
+				return new Response(pardoned ? 'OK' : 'Not Found', {
+					status: pardoned ? 200 : 404,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+		if (url.pathname === '/api/root/listbans' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as { token: string }
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				return new Response(JSON.stringify({
+					statusCode: 200,
+					data: bans.listActive()
+				}), {
+					status: 200,
+					headers: {
+						'Content-Type': 'application/json',
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname === '/api/root/queryvis' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as QueryVisData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				const board = boards.get(body.board ?? config.defaultBoard)
+				if (!board) {
+					return new Response('Board Not Found', {
+						status: 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				const vis = board.getVis(body.x, body.y)
+				return new Response(JSON.stringify({
+					statusCode: 200,
+					data: {
+						uid: vis.uid,
+						timestamp: vis.timestamp
+					}
+				}), {
+					status: 200,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname === '/api/root/queryregion' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as OwnershipData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				const board = boards.get(body.board ?? config.defaultBoard)
+				if (!board) {
+					return new Response('Board Not Found', {
+						status: 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const { x, y, width, height } = body
+				const format = body.format ?? 'json'
+				const scale = body.scale ?? 1
+				if (
+					!isBoardRegion(board, { x, y, width, height }) ||
+					!Number.isInteger(scale) ||
+					scale < 1 ||
+					width * scale > config.maxTileSize ||
+					height * scale > config.maxTileSize ||
+					!['json', 'binary', 'heatmap'].includes(format)
+				) {
+					throw new Error('Invalid region')
+				}
+
+				const pixels = board.readOwnership({ x, y, width, height })
+				if (!pixels) {
+					return new Response('Pixel ownership requires allowQuery', {
+						status: 503,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				if (format === 'binary') {
+					return new Response(encodeOwnership(pixels), {
+						status: 200,
+						headers: {
+							'Content-Type': 'application/octet-stream',
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				if (format === 'heatmap') {
+					return new Response(
+						await renderImage(renderHeatmap(pixels), width, height, 'png', scale),
+						{
+							status: 200,
+							headers: {
+								'Content-Type': 'image/png',
+								'Access-Control-Allow-Origin': '*'
+							}
+						}
+					)
+				}
+				return new Response(JSON.stringify({
+					statusCode: 200,
+					data: {
+						uids: pixels.map(pixel => pixel.uid),
+						timestamps: pixels.map(pixel => pixel.timestamp),
+						users: summarizeOwnership(pixels)
+					}
+				}), {
+					status: 200,
+					headers: {
+						'Content-Type': 'application/json',
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname === '/api/root/stamp' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as StampData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				const board = boards.get(body.board ?? config.defaultBoard)
+				if (!board) {
+					return new Response('Board Not Found', {
+						status: 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				if (body.color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(body.color)) {
+					throw new Error('Invalid color')
+				}
+				// 解码和填充之前先检查区域，避免按请求中的尺寸分配过大的缓冲区
+				// 未指定的尺寸至少为 1，解码后再按实际尺寸检查
+				const { x, y } = body
+				if (
+					!isBoardRegion(board, {
+						x,
+						y,
+						width: body.width ?? 1,
+						height: body.height ?? 1
+					})
+				) {
+					throw new Error('Invalid region')
+				}
+				// 不缩放时原图不能大于绘版
+				const { pixels, width, height } = body.image
+					? await decodeImage(
+							new Uint8Array(Buffer.from(body.image, 'base64')),
+							body.width,
+							body.height,
+							body.width === undefined && body.height === undefined
+								? board.width * board.height
+								: undefined
+					  )
+					: solidImage(
+							body.width!,
+							body.height!,
+							body.color
+								? {
+										r: parseInt(body.color.slice(1, 3), 16),
+										g: parseInt(body.color.slice(3, 5), 16),
+										b: parseInt(body.color.slice(5, 7), 16)
+								  }
+								: board.backgroundColor
+					  )
+
+				if (x + width > board.width || y + height > board.height) {
+					throw new Error('Invalid region')
+				}
+
+				const changed = board.stamp({ x, y, width, height }, pixels, body.operator ?? 'root')
+				return new Response(JSON.stringify({
+					statusCode: 200,
+					data: { changed }
+				}), {
+					status: 200,
+					headers: {
+						'Content-Type': 'application/json',
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid, or the image cannot be decoded
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname === '/api/root/rollback' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as RollbackData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				const board = boards.get(body.board ?? config.defaultBoard)
+				if (!board) {
+					return new Response('Board Not Found', {
+						status: 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				const uids = Array.isArray(body.uid) ? body.uid : [body.uid]
+				if (uids.length === 0 || !uids.every(Number.isInteger)) {
+					throw new Error('Invalid uid')
+				}
+				const startTime = body.startTime ?? 0
+				const endTime = body.endTime ?? Number.MAX_SAFE_INTEGER
+				if (
+					![startTime, endTime].every(Number.isSafeInteger) ||
+					startTime < 0 ||
+					startTime > endTime ||
+					(body.region !== undefined && !isBoardRegion(board, body.region)) ||
+					(body.operator !== undefined && typeof body.operator !== 'string')
+				) {
+					throw new Error('Invalid time range, region or operator')
+				}
+				const reverted = board.rollback(
+					uids,
+					startTime,
+					endTime,
+					body.region,
+					body.dryRun ?? false,
+					body.operator ?? 'root'
+				)
+				if (!reverted) {
+					return new Response('Paint history requires useDB', {
+						status: 503,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				logger.info(
+					`${body.dryRun ? 'Dry-run rollback' : 'Rolled back'} ${
+						reverted.length
+					} pixels of UID ${uids.join(', ')}`
+				)
+				return new Response(JSON.stringify({
+					statusCode: 200,
+					data: {
+						reverted: reverted.length,
+						...(body.dryRun ? { pixels: reverted } : {})
+					}
+				}), {
+					status: 200,
+					headers: {
+						'Content-Type': 'application/json',
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname === '/api/root/timelapse' && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as TimelapseData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				if (!db) {
+					return new Response('Paint history requires useDB', {
+						status: 503,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const board = boards.get(body.board ?? config.defaultBoard)
+				if (!board) {
+					return new Response('Board Not Found', {
+						status: 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const options = {
+					board: board.name,
+					width: board.width,
+					height: board.height,
+					startTime: body.startTime,
+					endTime: body.endTime,
+					frameInterval: body.frameInterval,
+					frameDelay: body.frameDelay ?? 100,
+					scale: body.scale ?? 1,
+					format: body.format ?? 'webp',
+					background: board.backgroundColor
+				}
+				const error = checkTimelapseOptions(
+					options,
+					config.maxTimelapseFrames,
+					config.maxTileSize
+				)
+				if (error) {
+					return new Response(error, {
+						status: 400,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const startTime = Date.now()
+				const data = await renderTimelapse(db, config.dbPath, options)
+				logger.info(
+					`Rendered timelapse of board ${board.name} in ${Date.now() - startTime}ms (${data.length} bytes)`
+				)
+				return new Response(data, {
+					headers: {
+						'Content-Type':
+							options.format === 'zip' ? 'application/zip' : 'image/webp',
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname.startsWith('/api/root/cooldown/') && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as CooldownData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const action = url.pathname.slice('/api/root/cooldown/'.length)
+				if (action === 'list') {
+					return new Response(JSON.stringify({
+						statusCode: 200,
+						data: cooldowns.list()
+					}), {
+						status: 200,
+						headers: {
+							'Content-Type': 'application/json',
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				let ok: boolean
+				if (action === 'settier') {
+					if (!body.name) throw new Error('Missing tier name')
+					cooldowns.setTier(body.name, parseCooldownPolicy(body))
+					ok = true
+				} else if (action === 'deletetier') {
+					ok = cooldowns.deleteTier(body.name!)
+				} else if (action === 'setuser') {
+					if (!Number.isInteger(body.uid)) throw new Error('Invalid UID')
+					const tier = body.tier ?? null
+					ok = tier === null || cooldowns.hasTier(tier)
+					if (ok) {
+						const policy =
+							body.burst === undefined && body.interval === undefined
+								? null
+								: parseCooldownPolicy(body)
+						cooldowns.setUser(body.uid!, { tier, policy })
+					}
+				} else {
+					throw new Error('Unknown action')
+				}
+				return new Response(ok ? 'OK' : 'Not Found', {
+					status: ok ? 200 : 404,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname.startsWith('/api/root/protect/') && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as ProtectData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const board = boards.get(body.board ?? config.defaultBoard)
+				if (!board) {
+					return new Response('Board Not Found', {
+						status: 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const action = url.pathname.slice('/api/root/protect/'.length)
+				if (action === 'list' || action === 'create') {
+					let data
+					if (action === 'list') {
+						data = board.listProtectedRegions().map(encodeRegion)
+					} else {
+						const allowedUids = body.allowedUids ?? []
+						if (!allowedUids.every(Number.isInteger)) throw new Error('Invalid UID')
+						const region = board.addProtectedRegion({
+							x: body.x!,
+							y: body.y!,
+							width: body.width!,
+							height: body.height!,
+							mask: body.mask ? new Uint8Array(Buffer.from(body.mask, 'base64')) : null,
+							allowedUids,
+							reason: body.reason ?? '',
+							createdBy: body.operator ?? 'root'
+						})
+						if (!region) throw new Error('Invalid region')
+						data = encodeRegion(region)
+					}
+					return new Response(JSON.stringify({
+						statusCode: 200,
+						data
+					}), {
+						status: 200,
+						headers: {
+							'Content-Type': 'application/json',
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				if (action === 'delete') {
+					const deleted = board.deleteProtectedRegion(body.id!)
+					return new Response(deleted ? 'OK' : 'Not Found', {
+						status: deleted ? 200 : 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				throw new Error('Unknown action')
+			} catch (err) { // req.json might be invalid
+				return new Response('Bad Request', {
+					status: 400,
+					headers: {
+						'Access-Control-Allow-Origin': '*'
+					}
+				})
+			}
+		}
+
+		if (url.pathname.startsWith('/api/root/snapshot/') && req.method === 'POST') {
+			try {
+				const body = (await req.json()) as SnapshotData
+				if (body.token !== config.rootToken) {
+					return new Response('Forbidden', {
+						status: 403,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+				if (!config.useDB) {
+					return new Response('Snapshots require useDB', {
+						status: 503,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const board = boards.get(body.board ?? config.defaultBoard)
+				if (!board) {
+					return new Response('Board Not Found', {
+						status: 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				const action = url.pathname.slice('/api/root/snapshot/'.length)
+				if (action === 'list' || action === 'create') {
+					const data =
+						action === 'list'
+							? board.listSnapshots()
+							: board.createSnapshot()
+					return new Response(JSON.stringify({
+						statusCode: 200,
+						data
+					}), {
+						status: 200,
+						headers: {
+							'Content-Type': 'application/json',
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				if (action === 'delete') {
+					const deleted = board.deleteSnapshot(body.id!)
+					return new Response(deleted ? 'OK' : 'Not Found', {
+						status: deleted ? 200 : 404,
+						headers: {
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
+
+				if (action === 'restore') {
+					if (body.operator !== undefined && typeof body.operator !== 'string') {
+						throw new Error('Invalid operator')
+					}
+					const result = board.restoreSnapshot(body.id!, body.operator ?? 'root')
+					const status = result.success ? 200 : result.error === 'NOT_FOUND' ? 404 : 409
+					return new Response(JSON.stringify({
+						statusCode: status,
+						data: result.success
+							? { changed: result.changed }
+							: { errorType: result.error }
+					}), {
+						status,
 						headers: {
+							'Content-Type': 'application/json',
 							'Access-Control-Allow-Origin': '*'
 						}
 					})
 				}
-				const vis = paintboard.getVis(body.x, body.y)
-				return new Response(JSON.stringify({
-					statusCode: 200,
-					data: {
-						uid: vis.uid,
-						timestamp: vis.timestamp
+
+				if (action === 'get') {
+					const format = body.format ?? 'raw'
+					if (!['raw', 'png', 'webp'].includes(format)) {
+						throw new Error('Invalid format')
 					}
-				}), {
-					status: 200,
-					headers: {
-						'Access-Control-Allow-Origin': '*'
+					const snapshot = board.getSnapshot(body.id!)
+					if (!snapshot) {
+						return new Response('Not Found', {
+							status: 404,
+							headers: {
+								'Access-Control-Allow-Origin': '*'
+							}
+						})
 					}
-				})
+					if (format === 'raw') {
+						return new Response(snapshot.pixels, {
+							headers: {
+								'Content-Type': 'application/octet-stream',
+								'Access-Control-Allow-Origin': '*'
+							}
+						})
+					}
+					const image = await renderImage(
+						snapshot.pixels,
+						snapshot.width,
+						snapshot.height,
+						format
+					)
+					return new Response(image, {
+						headers: {
+							'Content-Type': `image/${format}`,
+							'Access-Control-Allow-Origin': '*'
+						}
+					})
+				}
 			} catch (err) { // req.json might be invalid
 				return new Response('Bad Request', {
 					status: 400,
@@ -386,7 +1440,7 @@ const server = Bun.serve<WebSocketData>({
 				connections.length >= config.maxWebSocketPerIP
 			) {
 				// 触发封禁
-				banIP(ip)
+				banIP(ip, 'IP connection limit exceeded', config.banDuration)
 				// 断开该 IP 的所有连接
 				for (const conn of connections) {
 					conn.close(1008, 'IP connection limit exceeded')
@@ -404,13 +1458,14 @@ const server = Bun.serve<WebSocketData>({
 					ws.data.connId
 				)} ${ip} WebSocket connected: ${webSocketConnectionCount} clients online`
 			)
-			ws.subscribe('paint')
+			subscribeTopic(ws, boards.get(ws.data.board)!.topic)
 
 			// 初始化最后响应时间和 ping 标记
 			ws.data.lastPing = Date.now()
 			ws.data.waitingPong = false
 			ws.data.packetsReceived = 0
 			ws.data.lastPacketCountReset = Date.now()
+			ws.data.capabilities = 0
 
 			// 初始化第一次ping的发送
 			ws.data.nextPingDelay = Math.floor(Math.random() * 29000) + 1000 // 1-30秒
@@ -428,6 +1483,20 @@ const server = Bun.serve<WebSocketData>({
 				clearTimeout(ws.data.pongTimer)
 			}
 
+			// 释放订阅计数
+			for (const topic of subscribedTopics(ws)) {
+				unsubscribeTopic(ws, topic)
+			}
+			if (ws.data.chunks) {
+				const board = boards.get(ws.data.board)!
+				for (const chunk of ws.data.chunks) {
+					board.removeChunkSubscriber(chunk)
+				}
+			}
+			for (const bound of ws.data.tokenSlots ?? []) {
+				if (bound) unbindConnection(ws, bound.hash)
+			}
+
 			ws.data.sendBuffer.flush()
 			const ip = ws.data.ip
 			const connections = ipConnections.get(ip)
@@ -447,7 +1516,7 @@ const server = Bun.serve<WebSocketData>({
 				)} WebSocket closed: ${webSocketConnectionCount} clients remaining`
 			)
 		},
-		message(ws, msg: Buffer) {
+		message(ws, msg: Buffer<ArrayBuffer>) {
 			if (ws.readyState !== 1) return
 
 			const now = Date.now()
@@ -466,7 +1535,7 @@ const server = Bun.serve<WebSocketData>({
 					`Client ${ip} exceeded packet rate limit (${ws.data.packetsReceived} > ${config.maxPacketPerSecond}), banning for 15s`
 				)
 				// 设置15秒封禁
-				bannedIPs.set(ip, Date.now() + 15000)
+				banIP(ip, 'Packet rate limit exceeded', 15000)
 				// 断开该 IP 的所有连接
 				const connections = ipConnections.get(ip)
 				if (connections) {
@@ -522,6 +1591,134 @@ const server = Bun.serve<WebSocketData>({
 							)
 							break
 
+						case 0xf9: {
+							// C2S subscribe_chunks (10字节)
+							// mode: 0 取消订阅, 1 订阅, 2 恢复接收整个绘版
+							// 区块范围 [cx0, cx1] x [cy0, cy1]，包含两端
+							const mode = dataView.getUint8(offset)
+							const cx0 = dataView.getUint16(offset + 1, true)
+							const cy0 = dataView.getUint16(offset + 3, true)
+							const cx1 = dataView.getUint16(offset + 5, true)
+							const cy1 = dataView.getUint16(offset + 7, true)
+							offset += 9
+
+							if (mode > 2) {
+								ws.close(1002, 'Protocol violation: unknown subscribe mode')
+								return
+							}
+							updateChunkSubscription(ws, mode, cx0, cy0, cx1, cy1)
+							break
+						}
+
+						case 0xf5: {
+							// C2S hello (7字节)
+							const protocolVersion = dataView.getUint16(offset, true)
+							const capabilities = dataView.getUint32(offset + 2, true)
+							offset += 6
+							updateSubscriptions(ws, () => {
+								ws.data.protocolVersion = protocolVersion
+								ws.data.capabilities = capabilities
+							})
+							ws.data.sendBuffer.write(encodeHello(ws))
+							if (capabilities & Capability.PALETTE) {
+								ws.data.sendBuffer.write(encodePalette(boards.get(ws.data.board)!))
+							}
+							break
+						}
+
+						case 0xf7: {
+							// C2S set_compression (2字节)
+							// algorithm: 0 不压缩, 1 deflate, 2 zstd
+							const requested = dataView.getUint8(offset)
+							offset += 1
+
+							let algorithm: CompressionAlgorithm | undefined =
+								compressionAlgorithms[requested - 1]
+							if (algorithm === 'zstd' && !config.enableZstd) {
+								algorithm = undefined
+							}
+							if (requested !== 0 && !algorithm) {
+								logger.debug(
+									`${colorHash(ws.data.connId)} Unsupported compression ${requested}`
+								)
+							}
+							updateSubscriptions(ws, () => (ws.data.compression = algorithm))
+							// S2C compression_ack，返回实际使用的压缩方式
+							ws.data.sendBuffer.write(
+								new Uint8Array([
+									0xf6,
+									algorithm ? compressionAlgorithms.indexOf(algorithm) + 1 : 0
+								])
+							)
+							break
+						}
+
+						case 0xf3: {
+							// C2S bind_token (24字节)
+							const id = dataView.getUint32(offset, true)
+							const uid =
+								dataView.getUint8(offset + 4) +
+								dataView.getUint8(offset + 5) * 256 +
+								dataView.getUint8(offset + 6) * 65536
+							const hash = hashToken(readToken(msg, offset + 7))
+							offset += 23
+
+							const { result, slot } = bindToken(ws, uid, hash)
+							// S2C bind_result: id:u32 result:u8 slot:u16
+							const response = new Uint8Array(8)
+							const responseView = new DataView(response.buffer)
+							response[0] = 0xf2
+							responseView.setUint32(1, id, true)
+							response[5] = result
+							responseView.setUint16(6, slot, true)
+							ws.data.sendBuffer.write(response)
+							break
+						}
+
+						case 0xf1: {
+							// C2S compact_paint (14字节)，用 0xf3 绑定的槽位代替 UID 和 Token
+							const x = dataView.getUint16(offset, true)
+							const y = dataView.getUint16(offset + 2, true)
+							const color = {
+								r: dataView.getUint8(offset + 4),
+								g: dataView.getUint8(offset + 5),
+								b: dataView.getUint8(offset + 6)
+							}
+							const slot = dataView.getUint16(offset + 7, true)
+							const id = dataView.getUint32(offset + 9, true)
+							offset += 13
+
+							const bound = ws.data.tokenSlots?.[slot]
+							const result = bound
+								? paint(ws, x, y, color, bound.uid, bound.hash)
+								: PaintResultCode.INVALID_TOKEN
+							if (result === null) return
+							writePaintResult(ws, id, result, bound?.uid)
+							break
+						}
+
+						case 0xee: {
+							// C2S resume (9字节)，补发序号大于 sequence 的批次
+							const sequence = Number(dataView.getBigUint64(offset, true))
+							offset += 8
+							resume(ws, sequence)
+							break
+						}
+
+						case 0xec: {
+							// C2S board_request (13字节)，width 或 height 为 0 时返回整个绘版
+							const id = dataView.getUint32(offset, true)
+							const region = {
+								x: dataView.getUint16(offset + 4, true),
+								y: dataView.getUint16(offset + 6, true),
+								width: dataView.getUint16(offset + 8, true),
+								height: dataView.getUint16(offset + 10, true)
+							}
+							offset += 12
+							sendBoard(ws, id, region)
+							break
+						}
+
 						case 0xfe: {
 							// C2S paint (31字节)
 							
@@ -537,54 +1734,15 @@ const server = Bun.serve<WebSocketData>({
 								dataView.getUint8(offset + 8) * 256 +
 								dataView.getUint8(offset + 9) * 65536
 
-							// 处理 token (16字节)
-							const tokenBytes = new Uint8Array(msg.buffer, offset + 10, 16)
-							const token = [
-								Buffer.from(tokenBytes.slice(0, 4)).toString('hex'),
-								Buffer.from(tokenBytes.slice(4, 6)).toString('hex'),
-								Buffer.from(tokenBytes.slice(6, 8)).toString('hex'),
-								Buffer.from(tokenBytes.slice(8, 10)).toString('hex'),
-								Buffer.from(tokenBytes.slice(10, 16)).toString('hex')
-							].join('-')
+							// 处理 token (16字节)，之后只使用它的哈希
+							const hash = hashToken(readToken(msg, offset + 10))
 
 							const id = dataView.getUint32(offset + 26, true)
 							offset += 30
 
-							if (config.enableTokenCounting) {
-								ws.data.tokenUsageCount.add(token)
-							}
-							let result = 0x00
-							if (bannedUIDs.has(uid))
-							{
-								result = PaintResultCode.NO_PERMISSION
-							}
-							else
-							{
-								// 检查是否在活动时间内
-								if(Date.now() > config.activityEndTime || Date.now() < config.activityStartTime) {
-									logger.info('Painting before activity started or after ended, terminating connection')
-									ws.close(1003, 'Activity not started or already ended')
-									return
-								}
-
-								result = paintboard.validateToken(token, uid)
-								if (result === PaintResultCode.SUCCESS) {
-									const success = paintboard.setPixel(x, y, color, uid)
-									if (!success) {
-										result = PaintResultCode.BAD_FORMAT
-									}
-								}
-							}
-
-							const response = new Uint8Array([
-								0xff,
-								id & 255,
-								(id >> 8) & 255,
-								(id >> 16) & 255,
-								(id >> 24) & 255,
-								result
-							])
-							ws.data.sendBuffer.write(response) // S2C paint_result
+							const result = paint(ws, x, y, color, uid, hash)
+							if (result === null) return
+							writePaintResult(ws, id, result, uid)
 							break
 						}
 
@@ -614,22 +1772,345 @@ const server = Bun.serve<WebSocketData>({
 		: {})
 })
 
-const paintboard = new PaintBoardManager(
-	config.width,
-	config.height,
-	config.paintDelay,
-	config.validationPaste,
-	config.useDB,
-	config.clearBoard,
-	config.allowQuery
-)
-
-// 颜色更新事件处理
-paintboard.onColorUpdate(batchUpdate => {
-	const sent = server.publish('paint', batchUpdate, true)
-	if (sent > 0) globalPacketsSent += ipConnections.size
+const authProvider = createAuthProvider(config.auth, config.validationPaste)
+logger.info(`Using ${authProvider.name} auth provider`)
+const tokens = new TokenManager(authProvider, config.tokenTTL, db)
+
+// Token 失效时清空绑定的槽位并通知客户端
+tokens.onTokenRevoked(hash => {
+	const connections = boundConnections.get(hash)
+	if (!connections) return
+	boundConnections.delete(hash)
+	for (const ws of connections) {
+		ws.data.tokenSlots!.forEach((bound, slot) => {
+			if (bound?.hash !== hash) return
+			ws.data.tokenSlots![slot] = null
+			// S2C token_revoked: slot:u16
+			ws.data.sendBuffer.write(new Uint8Array([0xf0, slot & 255, slot >> 8]))
+		})
+	}
 })
 
+const boards = new Map<string, PaintBoardManager>()
+const responseCaches = new Map<string, ResponseCache>()
+for (const options of resolveBoards(config)) {
+	const board = new PaintBoardManager(options, tokens, cooldowns, db)
+	boards.set(options.name, board)
+	responseCaches.set(options.name, new ResponseCache())
+
+	// 颜色更新事件处理
+	board.onColorUpdate((topic, batchUpdate, sequence) =>
+		publishBatch(board, topic, batchUpdate, sequence)
+	)
+}
+
+// 在线程池中用 sharp 编码 RGB 像素，scale 为最近邻整数倍放大
+// 有调色板且所有像素都在调色板中时，PNG 为索引色
+async function renderImage(
+	pixels: Uint8Array,
+	width: number,
+	height: number,
+	format: ImageFormat,
+	scale: number = 1,
+	palette: number[] | null = null
+): Promise<Uint8Array> {
+	if (format === 'raw' && scale === 1) return pixels
+	const image = await pool.exec<
+		(
+			arg0: Uint8Array,
+			arg1: number,
+			arg2: number,
+			arg3: ImageFormat,
+			arg4: number,
+			arg5: number[] | null
+		) => Promise<Buffer | Uint8Array>
+	>(
+		async (
+			pixels: Uint8Array,
+			width: number,
+			height: number,
+			format: ImageFormat,
+			scale: number,
+			palette: number[] | null
+		) => {
+			const sharp = await import('sharp')
+			let image = sharp.default(pixels, {
+				raw: {
+					width,
+					height,
+					channels: 3
+				}
+			})
+			if (scale > 1) {
+				image = image.resize(width * scale, height * scale, { kernel: 'nearest' })
+			}
+			if (format === 'raw') return await image.raw().toBuffer()
+			if (format === 'png' && palette) {
+				const indexed = await (async () => {
+					const raw = scale > 1 ? new Uint8Array(await image.raw().toBuffer()) : pixels
+					const outputWidth = width * scale
+					const outputHeight = height * scale
+					const indices = new Map(palette.map((color, i) => [color, i]))
+					// 每行前有一个字节的过滤类型 (0 为不过滤)
+					const rows = new Uint8Array((outputWidth + 1) * outputHeight)
+					for (let y = 0; y < outputHeight; y++) {
+						for (let x = 0; x < outputWidth; x++) {
+							const offset = (y * outputWidth + x) * 3
+							const index = indices.get(
+								(raw[offset] << 16) | (raw[offset + 1] << 8) | raw[offset + 2]
+							)
+							if (index === undefined) return null
+							rows[y * (outputWidth + 1) + 1 + x] = index
+						}
+					}
+
+					const { deflateSync } = await import('zlib')
+					const chunk = (type: string, data: Uint8Array) => {
+						const bytes = new Uint8Array(12 + data.length)
+						const view = new DataView(bytes.buffer)
+						view.setUint32(0, data.length)
+						bytes.set(new TextEncoder().encode(type), 4)
+						bytes.set(data, 8)
+						view.setUint32(8 + data.length, Bun.hash.crc32(bytes.subarray(4, 8 + data.length)))
+						return bytes
+					}
+					const header = new Uint8Array(13)
+					const headerView = new DataView(header.buffer)
+					headerView.setUint32(0, outputWidth)
+					headerView.setUint32(4, outputHeight)
+					header[8] = 8 // 位深度
+					header[9] = 3 // 索引色
+					const plte = new Uint8Array(palette.length * 3)
+					palette.forEach((color, i) => {
+						plte[i * 3] = (color >> 16) & 255
+						plte[i * 3 + 1] = (color >> 8) & 255
+						plte[i * 3 + 2] = color & 255
+					})
+					const parts = [
+						new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+						chunk('IHDR', header),
+						chunk('PLTE', plte),
+						chunk('IDAT', new Uint8Array(deflateSync(rows))),
+						chunk('IEND', new Uint8Array(0))
+					]
+					const png = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+					let offset = 0
+					for (const part of parts) {
+						png.set(part, offset)
+						offset += part.length
+					}
+					return png
+				})()
+				// 有不在调色板中的像素 (例如设置调色板之前的绘画) 时使用普通 PNG
+				if (indexed) return indexed
+			}
+			return format === 'png'
+				? await image.png().toBuffer()
+				: await image.webp({ lossless: true }).toBuffer()
+		},
+		[pixels, width, height, format, scale, palette]
+	)
+	return new Uint8Array(image)
+}
+
+// 解码 PNG 或 WebP 为 RGBA，指定尺寸时缩放到该尺寸
+// maxPixels 限制原图的像素数，超过时在解码前拒绝
+async function decodeImage(
+	image: Uint8Array,
+	width?: number,
+	height?: number,
+	maxPixels?: number
+): Promise<{ pixels: Uint8Array; width: number; height: number }> {
+	if (
+		(width !== undefined && !(Number.isInteger(width) && width > 0)) ||
+		(height !== undefined && !(Number.isInteger(height) && height > 0))
+	) {
+		throw new Error('Invalid size')
+	}
+	const [pixels, decodedWidth, decodedHeight] = await pool.exec<
+		(
+			arg0: Uint8Array,
+			arg1: number | null,
+			arg2: number | null,
+			arg3: number | null
+		) => Promise<[Uint8Array, number, number]>
+	>(
+		async (
+			image: Uint8Array,
+			width: number | null,
+			height: number | null,
+			maxPixels: number | null
+		) => {
+			const sharp = await import('sharp')
+			let decoded = sharp
+				.default(image, maxPixels === null ? {} : { limitInputPixels: maxPixels })
+				.ensureAlpha()
+			const { format } = await decoded.metadata()
+			if (format !== 'png' && format !== 'webp') throw new Error('Unsupported format')
+			if (width !== null || height !== null) {
+				decoded = decoded.resize(width, height, { fit: 'fill', kernel: 'nearest' })
+			}
+			const { data, info } = await decoded.raw().toBuffer({ resolveWithObject: true })
+			return [new Uint8Array(data), info.width, info.height]
+		},
+		[image, width ?? null, height ?? null, maxPixels ?? null]
+	)
+	return { pixels, width: decodedWidth, height: decodedHeight }
+}
+
+// 每个像素 uid:u32 timestamp:f64，小端序，按行排列
+function encodeOwnership(pixels: PixelData[]): Uint8Array {
+	const data = new Uint8Array(pixels.length * 12)
+	const view = new DataView(data.buffer)
+	pixels.forEach((pixel, i) => {
+		view.setUint32(i * 12, pixel.uid, true)
+		view.setFloat64(i * 12 + 4, pixel.timestamp, true)
+	})
+	return data
+}
+
+// 每个 UID 一种颜色 (色相按黄金分割分布)，没有人画过的像素为黑色
+function renderHeatmap(pixels: PixelData[]): Uint8Array {
+	const image = new Uint8Array(pixels.length * 3)
+	pixels.forEach((pixel, i) => {
+		if (pixel.timestamp === 0) return
+		const hue = ((pixel.uid * 0.618033988749895) % 1) * 6
+		const sector = Math.floor(hue)
+		const f = hue - sector
+		const [r, g, b] = [
+			[1, f, 0],
+			[1 - f, 1, 0],
+			[0, 1, f],
+			[0, 1 - f, 1],
+			[f, 0, 1],
+			[1, 0, 1 - f]
+		][sector]
+		image[i * 3] = 55 + r * 200
+		image[i * 3 + 1] = 55 + g * 200
+		image[i * 3 + 2] = 55 + b * 200
+	})
+	return image
+}
+
+// 按像素数从多到少排列，不包括没有人画过的像素
+function summarizeOwnership(pixels: PixelData[]): OwnershipSummary[] {
+	const users = new Map<number, OwnershipSummary>()
+	for (const { uid, timestamp } of pixels) {
+		if (timestamp === 0) continue
+		const user = users.get(uid)
+		if (!user) {
+			users.set(uid, { uid, pixels: 1, firstPaint: timestamp, lastPaint: timestamp })
+			continue
+		}
+		user.pixels++
+		user.firstPaint = Math.min(user.firstPaint, timestamp)
+		user.lastPaint = Math.max(user.lastPaint, timestamp)
+	}
+	return [...users.values()].sort((a, b) => b.pixels - a.pixels)
+}
+
+// 纯色的 RGBA 图片
+function solidImage(
+	width: number,
+	height: number,
+	color: Color
+): { pixels: Uint8Array; width: number; height: number } {
+	if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+		throw new Error('Invalid size')
+	}
+	const pixels = new Uint8Array(width * height * 4)
+	for (let i = 0; i < pixels.length; i += 4) {
+		pixels[i] = color.r
+		pixels[i + 1] = color.g
+		pixels[i + 2] = color.b
+		pixels[i + 3] = 255
+	}
+	return { pixels, width, height }
+}
+
+// 按 Accept-Encoding 选择绘版数据的编码，q 值相同时依次优先 zstd、gzip、identity
+// 没有 Accept-Encoding 时与旧版本一样使用 gzip
+function negotiateEncoding(header: string | null): 'zstd' | 'gzip' | 'identity' {
+	if (!header) return 'gzip'
+	const accepted = new Map<string, number>()
+	for (const part of header.split(',')) {
+		const [name, ...params] = part.trim().toLowerCase().split(';')
+		const q = params.map(param => param.trim()).find(param => param.startsWith('q='))
+		accepted.set(name.trim(), q ? Number(q.slice(2)) || 0 : 1)
+	}
+
+	const candidates = config.enableZstd
+		? (['zstd', 'gzip', 'identity'] as const)
+		: (['gzip', 'identity'] as const)
+	let best: 'zstd' | 'gzip' | 'identity' = 'identity'
+	let bestQuality = 0
+	for (const encoding of candidates) {
+		// 未列出的 identity 默认可以接受
+		const quality =
+			accepted.get(encoding) ??
+			accepted.get('*') ??
+			(encoding === 'identity' ? 0.001 : 0)
+		if (quality > bestQuality) {
+			best = encoding
+			bestQuality = quality
+		}
+	}
+	return best
+}
+
+// 带缓存和 ETag 的绘版响应，If-None-Match 命中时返回 304
+async function cachedResponse(
+	req: Request,
+	board: PaintBoardManager,
+	key: string,
+	encode: () => Promise<Uint8Array>,
+	headers: Record<string, string>
+): Promise<Response> {
+	// 编码前已经发布的批次都包含在返回的数据中
+	const version = board.sequence
+	const etag = `"${board.name}-${version}-${key}"`
+	const responseHeaders: Record<string, string> = {
+		...headers,
+		'Access-Control-Allow-Origin': '*',
+		'Access-Control-Expose-Headers': 'ETag, X-Board-Sequence',
+		'Cache-Control': 'no-cache',
+		ETag: etag,
+		'X-Board-Sequence': version.toString()
+	}
+
+	const ifNoneMatch = req.headers.get('If-None-Match')
+	if (
+		ifNoneMatch &&
+		ifNoneMatch
+			.split(',')
+			.map(tag => tag.trim().replace(/^W\//, ''))
+			.some(tag => tag === etag || tag === '*')
+	) {
+		delete responseHeaders['Content-Encoding']
+		return new Response(null, { status: 304, headers: responseHeaders })
+	}
+
+	const body = await responseCaches.get(board.name)!.get(version, key, encode)
+	return new Response(body, { headers: responseHeaders })
+}
+
+// 绘版路由：/api/boards/<name>/<action>，旧路由 /api/paintboard/<action> 对应默认绘版
+function resolveBoardRoute(
+	pathname: string
+): { board: PaintBoardManager; action: string } | null {
+	const legacy = pathname.match(/^\/api\/paintboard\/(\w+)$/)
+	if (legacy) {
+		const board = boards.get(config.defaultBoard)
+		return board ? { board, action: legacy[1] } : null
+	}
+	const scoped = pathname.match(/^\/api\/boards\/([\w-]+)\/(\w+)$/)
+	if (scoped) {
+		const board = boards.get(scoped[1])
+		return board ? { board, action: scoped[2] } : null
+	}
+	return null
+}
+
 // 服务器刻处理：定期发送更新
 setInterval(() => {
 	const now = Date.now()
@@ -645,7 +2126,9 @@ setInterval(() => {
 			if (buffer.length > 0) ws.send(buffer)
 		}
 	}
-	paintboard.flushUpdates()
+	for (const board of boards.values()) {
+		board.flushUpdates()
+	}
 }, 1000 / config.ticksPerSecond)
 
 // 吞吐量监控
@@ -674,28 +2157,66 @@ setInterval(() => {
 			.join('\n')}`
 	}
 
+	if (globalBytesBeforeCompression > 0) {
+		statsMessage += `, Compression: ${globalBytesBeforeCompression} -> ${globalBytesAfterCompression} bytes (${(
+			globalBytesAfterCompression / globalBytesBeforeCompression
+		).toFixed(2)}x)`
+	}
+
+	const { ip, uid, concurrency, cachedFailure } = gettokenLimitHits
+	if (ip + uid + concurrency + cachedFailure > 0) {
+		statsMessage += `, Gettoken limited - IP: ${ip}, UID: ${uid}, Concurrency: ${concurrency}, Cached failures: ${cachedFailure}`
+	}
+
 	logger.info(statsMessage)
 
 	// 重置计数器
 	globalPacketsReceived = 0
 	globalPacketsSent = 0
+	globalBytesBeforeCompression = 0
+	globalBytesAfterCompression = 0
+	gettokenLimitHits.ip = 0
+	gettokenLimitHits.uid = 0
+	gettokenLimitHits.concurrency = 0
+	gettokenLimitHits.cachedFailure = 0
 }, 5000)
 
+// 清理已恢复的令牌桶和过期的失败缓存
+setInterval(() => {
+	gettokenIPLimiter.prune()
+	gettokenUIDLimiter.prune()
+	failedValidations.prune()
+	const expired = tokens.sweepExpired()
+	if (expired > 0) logger.debug(`Removed ${expired} expired tokens`)
+}, 60000)
+
 // 优雅退出处理
 function handleShutdown() {
 	logger.info('Server shutting down...')
-	paintboard.shutdown()
+	for (const board of boards.values()) {
+		board.shutdown()
+	}
+	db?.close()
 	process.exit(0)
 }
 
 process.on('SIGINT', handleShutdown)
 process.on('SIGTERM', handleShutdown)
 
-async function handleTokenRequest(req: Request): Promise<Response> {
+async function handleTokenRequest(req: Request, ip?: string): Promise<Response> {
+	if (ip) {
+		const wait = gettokenIPLimiter.take(ip)
+		if (wait > 0) {
+			gettokenLimitHits.ip++
+			return rateLimited(wait)
+		}
+	}
+
 	try {
 		const body = (await req.json()) as TokenRequest
+		const credential = body.credential ?? body.paste
 
-		if (!Number.isInteger(body.uid)) {
+		if (!Number.isInteger(body.uid) || typeof credential !== 'string') {
 			return new Response(
 				JSON.stringify({
 					statusCode: 400,
@@ -734,14 +2255,53 @@ async function handleTokenRequest(req: Request): Promise<Response> {
 			)
 		}
 
-		const result = await paintboard.generateToken(body.uid, body.paste)
+		// 同一 UID 和凭据最近验证失败过，不再请求上游
+		const failureKey = `${body.uid}:${credential}`
+		const cachedError = failedValidations.get(failureKey)
+		if (cachedError) {
+			gettokenLimitHits.cachedFailure++
+			return new Response(
+				JSON.stringify({
+					statusCode: 403,
+					data: {
+						errorType: cachedError
+					}
+				}),
+				{
+					status: 403,
+					headers: {
+						'Content-Type': 'application/json',
+						'Access-Control-Allow-Origin': '*'
+					}
+				}
+			)
+		}
+
+		const wait = gettokenUIDLimiter.take(body.uid.toString())
+		if (wait > 0) {
+			gettokenLimitHits.uid++
+			return rateLimited(wait)
+		}
+		if (
+			config.maxConcurrentValidations > 0 &&
+			pendingValidations >= config.maxConcurrentValidations
+		) {
+			gettokenLimitHits.concurrency++
+			return rateLimited(1000)
+		}
+
+		pendingValidations++
+		let result: Awaited<ReturnType<typeof tokens.generateToken>>
+		try {
+			result = await tokens.generateToken(body.uid, credential)
+		} finally {
+			pendingValidations--
+		}
+		if (result.error) failedValidations.set(failureKey, result.error)
 
 		if (!result.token) {
-			if (
-				result.error === 'PASTE_NOT_FOUND' ||
-				result.error === 'UID_MISMATCH' ||
-				result.error === 'CONTENT_MISMATCH'
-			) {
+			// 验证未通过，没有 error 时为验证过程出错
+			if (result.error) {
 				return new Response(
 					JSON.stringify({
 						statusCode: 403,
@@ -780,7 +2340,8 @@ async function handleTokenRequest(req: Request): Promise<Response> {
 			JSON.stringify({
 				statusCode: 200,
 				data: {
-					token: result.token
+					token: result.token,
+					expiresAt: result.expiresAt
 				}
 			}),
 			{
@@ -812,8 +2373,504 @@ async function handleTokenRequest(req: Request): Promise<Response> {
 	}
 }
 
+// 矩形区域的坐标和尺寸都是整数，且完全在绘版内
+function isBoardRegion(board: PaintBoardManager, region: Region): boolean {
+	const { x, y, width, height } = region
+	return (
+		[x, y, width, height].every(Number.isInteger) &&
+		x >= 0 &&
+		y >= 0 &&
+		width >= 1 &&
+		height >= 1 &&
+		x + width <= board.width &&
+		y + height <= board.height
+	)
+}
+
+// 受保护区域的 JSON 表示，遮罩为 base64
+function encodeRegion(region: ProtectedRegion) {
+	return { ...region, mask: region.mask && Buffer.from(region.mask).toString('base64') }
+}
+
+// 检查请求中的冷却策略，不合法时抛出异常
+function parseCooldownPolicy(body: CooldownData): CooldownPolicy {
+	const { burst, interval } = body
+	if (!Number.isInteger(burst) || burst! < 1) throw new Error('Invalid burst')
+	if (typeof interval !== 'number' || !(interval >= 0)) throw new Error('Invalid interval')
+	return { burst: burst!, interval }
+}
+
+// gettoken 被限流，wait 为建议等待的毫秒数
+function rateLimited(wait: number): Response {
+	const retryAfter = Math.ceil(wait / 1000)
+	return new Response(
+		JSON.stringify({
+			statusCode: 429,
+			data: {
+				errorType: 'RATE_LIMITED',
+				retryAfter
+			}
+		}),
+		{
+			status: 429,
+			headers: {
+				'Content-Type': 'application/json',
+				'Retry-After': retryAfter.toString(),
+				'Access-Control-Allow-Origin': '*',
+				'Access-Control-Expose-Headers': 'Retry-After'
+			}
+		}
+	)
+}
+
 logger.info(`Server started on port ${config.port}`)
 
+// 16 字节 Token 转换为 UUID 字符串
+function readToken(msg: Buffer, offset: number): string {
+	const tokenBytes = new Uint8Array(msg.buffer, offset, 16)
+	return [
+		Buffer.from(tokenBytes.slice(0, 4)).toString('hex'),
+		Buffer.from(tokenBytes.slice(4, 6)).toString('hex'),
+		Buffer.from(tokenBytes.slice(6, 8)).toString('hex'),
+		Buffer.from(tokenBytes.slice(8, 10)).toString('hex'),
+		Buffer.from(tokenBytes.slice(10, 16)).toString('hex')
+	].join('-')
+}
+
+// 处理一次绘画，返回结果码；连接因活动时间被关闭时返回 null
+// hash 为 Token 的哈希，每次绘画都重新检查，吊销后立即生效
+function paint(
+	ws: Bun.ServerWebSocket<WebSocketData>,
+	x: number,
+	y: number,
+	color: Color,
+	uid: number,
+	hash: string
+): PaintResultCode | null {
+	if (config.enableTokenCounting) {
+		ws.data.tokenUsageCount.add(hash)
+	}
+	if (bans.isUIDBanned(uid)) return PaintResultCode.NO_PERMISSION
+
+	// 检查是否在活动时间内
+	const board = boards.get(ws.data.board)!
+	if (Date.now() > board.activityEndTime || Date.now() < board.activityStartTime) {
+		logger.info('Painting before activity started or after ended, terminating connection')
+		ws.close(1003, 'Activity not started or already ended')
+		return null
+	}
+
+	const result = board.validateToken(hash, uid, x, y, color)
+	if (result !== PaintResultCode.SUCCESS) return result
+	const success = board.setPixel(x, y, color, uid, {
+		connId: ws.data.connId,
+		ip: ws.data.ip
+	})
+	return success ? result : PaintResultCode.BAD_FORMAT
+}
+
+// S2C paint_result
+function encodePaintResult(id: number, result: number): Uint8Array {
+	return new Uint8Array([
+		0xff,
+		id & 255,
+		(id >> 8) & 255,
+		(id >> 16) & 255,
+		(id >> 24) & 255,
+		result
+	])
+}
+
+// S2C paint_result；客户端声明了 PAINT_COOLDOWN 时，通过 Token 验证的绘画再附带
+// S2C next_paint: 0xe9 id:u32 wait:u32，wait 为距离下次可以绘画的毫秒数
+function writePaintResult(
+	ws: Bun.ServerWebSocket<WebSocketData>,
+	id: number,
+	result: PaintResultCode,
+	uid?: number
+) {
+	ws.data.sendBuffer.write(encodePaintResult(id, result))
+	if ((ws.data.capabilities & Capability.PAINT_COOLDOWN) === 0 || uid === undefined) return
+	if (result !== PaintResultCode.SUCCESS && result !== PaintResultCode.COOLING) return
+
+	const wait = Math.min(boards.get(ws.data.board)!.nextPaintDelay(uid), 0xffffffff)
+	const packet = new Uint8Array(9)
+	const view = new DataView(packet.buffer)
+	packet[0] = 0xe9
+	view.setUint32(1, id, true)
+	view.setUint32(5, wait, true)
+	ws.data.sendBuffer.write(packet)
+}
+
+// 把 Token 绑定到连接上，重复绑定返回原来的槽位，空出的槽位会被复用
+function bindToken(
+	ws: Bun.ServerWebSocket<WebSocketData>,
+	uid: number,
+	hash: string
+): { result: PaintResultCode; slot: number } {
+	if (!tokens.validateHash(hash, uid)) {
+		return { result: PaintResultCode.INVALID_TOKEN, slot: 0 }
+	}
+	if (bans.isUIDBanned(uid)) {
+		return { result: PaintResultCode.NO_PERMISSION, slot: 0 }
+	}
+
+	const slots = (ws.data.tokenSlots ??= [])
+	const existing = slots.findIndex(bound => bound?.hash === hash)
+	if (existing !== -1) return { result: PaintResultCode.SUCCESS, slot: existing }
+
+	let slot = slots.indexOf(null)
+	if (slot === -1) {
+		if (slots.length >= config.maxTokenSlots) {
+			return { result: PaintResultCode.SLOTS_FULL, slot: 0 }
+		}
+		slot = slots.length
+	}
+	slots[slot] = { uid, hash }
+
+	let connections = boundConnections.get(hash)
+	if (!connections) {
+		connections = new Set()
+		boundConnections.set(hash, connections)
+	}
+	connections.add(ws)
+	return { result: PaintResultCode.SUCCESS, slot }
+}
+
+function unbindConnection(ws: Bun.ServerWebSocket<WebSocketData>, hash: string) {
+	const connections = boundConnections.get(hash)
+	if (!connections) return
+	connections.delete(ws)
+	if (connections.size === 0) boundConnections.delete(hash)
+}
+
+// 服务端启用的功能
+function serverFeatures(): number {
+	let features =
+		Capability.CHUNK_SUBSCRIPTION |
+		Capability.COMPRESSION_DEFLATE |
+		Capability.TOKEN_BINDING |
+		Capability.SEQUENCED_UPDATES |
+		Capability.BOARD_REQUEST |
+		Capability.PAINT_COOLDOWN |
+		Capability.PALETTE
+	if (config.enableZstd) features |= Capability.COMPRESSION_ZSTD
+	return features
+}
+
+// S2C palette: 0xe8 policy:u8 count:u16 colors:u8[count * 3]
+// policy 0 拒绝、1 吸附，count 为 0 时不限制颜色
+function encodePalette(board: PaintBoardManager): Uint8Array {
+	const palette = board.palette ?? []
+	const packet = new Uint8Array(4 + palette.length * 3)
+	packet[0] = 0xe8
+	packet[1] = board.palettePolicy === 'snap' ? 1 : 0
+	new DataView(packet.buffer).setUint16(2, palette.length, true)
+	palette.forEach((color, i) => {
+		packet[4 + i * 3] = (color >> 16) & 255
+		packet[5 + i * 3] = (color >> 8) & 255
+		packet[6 + i * 3] = color & 255
+	})
+	return packet
+}
+
+// S2C hello: 0xf4 protocolVersion:u16 features:u32 width:u16 height:u16
+// paintDelay:u32 activityStartTime:f64 activityEndTime:f64 versionLength:u8 version
+function encodeHello(ws: Bun.ServerWebSocket<WebSocketData>): Uint8Array {
+	const board = boards.get(ws.data.board)!
+	const version = new TextEncoder().encode(serverVersion)
+	const packet = new Uint8Array(32 + version.length)
+	const view = new DataView(packet.buffer)
+	packet[0] = 0xf4
+	view.setUint16(1, PROTOCOL_VERSION, true)
+	view.setUint32(3, serverFeatures(), true)
+	view.setUint16(7, board.width, true)
+	view.setUint16(9, board.height, true)
+	view.setUint32(11, board.paintDelay, true)
+	view.setFloat64(15, board.activityStartTime, true)
+	view.setFloat64(23, board.activityEndTime, true)
+	packet[31] = version.length
+	packet.set(version, 32)
+	return packet
+}
+
+// 更新连接的区块订阅，第一次订阅区块时停止接收整个绘版的更新
+function updateChunkSubscription(
+	ws: Bun.ServerWebSocket<WebSocketData>,
+	mode: number,
+	cx0: number,
+	cy0: number,
+	cx1: number,
+	cy1: number
+) {
+	const board = boards.get(ws.data.board)!
+
+	if (mode === 2) {
+		if (!ws.data.chunks) return
+		for (const chunk of ws.data.chunks) {
+			unsubscribeTopic(ws, board.chunkTopic(chunk))
+			board.removeChunkSubscriber(chunk)
+		}
+		ws.data.chunks = undefined
+		subscribeTopic(ws, board.topic)
+		return
+	}
+
+	if (!ws.data.chunks) {
+		if (mode === 0) return
+		unsubscribeTopic(ws, board.topic)
+		ws.data.chunks = new Set()
+	}
+
+	for (let cy = cy0; cy <= Math.min(cy1, board.chunksY - 1); cy++) {
+		for (let cx = cx0; cx <= Math.min(cx1, board.chunksX - 1); cx++) {
+			const chunk = cy * board.chunksX + cx
+			if (mode === 1 && !ws.data.chunks.has(chunk)) {
+				ws.data.chunks.add(chunk)
+				subscribeTopic(ws, board.chunkTopic(chunk))
+				board.addChunkSubscriber(chunk)
+			} else if (mode === 0 && ws.data.chunks.delete(chunk)) {
+				unsubscribeTopic(ws, board.chunkTopic(chunk))
+				board.removeChunkSubscriber(chunk)
+			}
+		}
+	}
+}
+
+// 连接当前订阅的更新主题 (未加压缩后缀)
+function subscribedTopics(ws: Bun.ServerWebSocket<WebSocketData>): string[] {
+	const board = boards.get(ws.data.board)!
+	return ws.data.chunks
+		? [...ws.data.chunks].map(chunk => board.chunkTopic(chunk))
+		: [board.topic]
+}
+
+function topicVariant(
+	topic: string,
+	sequenced: boolean,
+	algorithm: CompressionAlgorithm | undefined
+): string {
+	return `${topic}${sequenced ? '@seq' : ''}${algorithm ? `#${algorithm}` : ''}`
+}
+
+// 按连接声明的功能和协商的压缩方式订阅主题
+function subscribeTopic(ws: Bun.ServerWebSocket<WebSocketData>, topic: string) {
+	const variant = topicVariant(
+		topic,
+		(ws.data.capabilities & Capability.SEQUENCED_UPDATES) !== 0,
+		ws.data.compression
+	)
+	ws.subscribe(variant)
+	if (variant !== topic)
+		variantSubscribers.set(variant, (variantSubscribers.get(variant) ?? 0) + 1)
+}
+
+function unsubscribeTopic(ws: Bun.ServerWebSocket<WebSocketData>, topic: string) {
+	const variant = topicVariant(
+		topic,
+		(ws.data.capabilities & Capability.SEQUENCED_UPDATES) !== 0,
+		ws.data.compression
+	)
+	ws.unsubscribe(variant)
+	if (variant === topic) return
+	const count = (variantSubscribers.get(variant) ?? 1) - 1
+	if (count > 0) variantSubscribers.set(variant, count)
+	else variantSubscribers.delete(variant)
+}
+
+// 修改影响订阅主题的连接状态 (压缩方式、功能)，已订阅的主题改为对应的变体
+function updateSubscriptions(
+	ws: Bun.ServerWebSocket<WebSocketData>,
+	update: () => void
+) {
+	const topics = subscribedTopics(ws)
+	for (const topic of topics) unsubscribeTopic(ws, topic)
+	update()
+	for (const topic of topics) subscribeTopic(ws, topic)
+}
+
+// S2C batch_sequence: 0xef sequence:u64，之后的更新属于该批次
+function withSequence(batch: Uint8Array, sequence: number): Uint8Array {
+	const packet = new Uint8Array(9 + batch.length)
+	packet[0] = 0xef
+	new DataView(packet.buffer).setBigUint64(1, BigInt(sequence), true)
+	packet.set(batch, 9)
+	return packet
+}
+
+// 补发断线期间的批次，缓冲区中已经没有时要求客户端重新获取绘版
+// S2C resume_result: 0xed result:u8 sequence:u64，result 0 为补发、1 为需要重新获取
+function resume(ws: Bun.ServerWebSocket<WebSocketData>, sequence: number) {
+	const board = boards.get(ws.data.board)!
+	const batches = board.batchesSince(sequence)
+	const header = new Uint8Array(10)
+	header[0] = 0xed
+	header[1] = batches ? 0 : 1
+	new DataView(header.buffer).setBigUint64(2, BigInt(board.sequence), true)
+	ws.data.sendBuffer.write(header)
+	if (!batches || batches.length === 0) return
+
+	const replay = new Bun.ArrayBufferSink()
+	replay.start({ asUint8Array: true })
+	for (const { sequence, batch } of batches) replay.write(withSequence(batch, sequence))
+	const data = replay.end() as Uint8Array
+	ws.data.sendBuffer.write(
+		ws.data.compression ? compressBatch(data, ws.data.compression) : data
+	)
+}
+
+// 压缩一个更新批次，每个服务器刻每种算法只压缩一次
+// S2C compressed_batch: 0xf8 algorithm:u8 rawLength:u32 length:u32 data
+function compressBatch(
+	batch: Uint8Array,
+	algorithm: CompressionAlgorithm
+): Uint8Array {
+	if (batch.length < config.compressionThreshold) return batch
+
+	// 批次由 ArrayBufferSink 生成，不在 SharedArrayBuffer 上
+	const input = batch as Uint8Array<ArrayBuffer>
+	let compressed: Uint8Array
+	try {
+		compressed =
+			algorithm === 'deflate' ? Bun.deflateSync(input) : Bun.zstdCompressSync(input)
+	} catch (e) {
+		logger.error(e, `Failed to compress batch with ${algorithm}`)
+		return batch
+	}
+
+	const frame = new Uint8Array(10 + compressed.length)
+	const view = new DataView(frame.buffer)
+	frame[0] = 0xf8
+	frame[1] = compressionAlgorithms.indexOf(algorithm) + 1
+	view.setUint32(2, batch.length, true)
+	view.setUint32(6, compressed.length, true)
+	frame.set(compressed, 10)
+
+	globalBytesBeforeCompression += batch.length
+	globalBytesAfterCompression += frame.length
+	return frame
+}
+
+// S2C board_header: 0xeb id:u32 result:u8 sequence:u64 frames:u16
+// result: 0 成功, 1 区域无效, 2 上一个请求未完成, 3 服务器错误
+function encodeBoardHeader(
+	id: number,
+	result: number,
+	sequence: number,
+	frames: number
+): Uint8Array {
+	const header = new Uint8Array(16)
+	const view = new DataView(header.buffer)
+	header[0] = 0xeb
+	view.setUint32(1, id, true)
+	header[5] = result
+	view.setBigUint64(6, BigInt(sequence), true)
+	view.setUint16(14, frames, true)
+	return header
+}
+
+// 通过 WebSocket 发送绘版或其中一个矩形区域，按行切分为多帧压缩发送
+// S2C board_frame: 0xea id:u32 x:u16 y:u16 width:u16 height:u16 algorithm:u8 length:u32 data
+async function sendBoard(
+	ws: Bun.ServerWebSocket<WebSocketData>,
+	id: number,
+	region: Region
+) {
+	const board = boards.get(ws.data.board)!
+	if (region.width === 0 || region.height === 0) {
+		region = { x: 0, y: 0, width: board.width, height: board.height }
+	}
+	if (
+		region.x + region.width > board.width ||
+		region.y + region.height > board.height
+	) {
+		ws.data.sendBuffer.write(encodeBoardHeader(id, 1, board.sequence, 0))
+		return
+	}
+	if (ws.data.boardRequestPending) {
+		ws.data.sendBuffer.write(encodeBoardHeader(id, 2, board.sequence, 0))
+		return
+	}
+
+	// 复制像素时记录序号，之后的批次都不包含在数据中
+	const sequence = board.sequence
+	const pixels = board.readRegion(region)
+	const rowsPerFrame = Math.max(1, Math.floor(boardFrameBytes / (region.width * 3)))
+	const algorithm = ws.data.compression ?? 'deflate'
+
+	ws.data.boardRequestPending = true
+	let frames: Uint8Array[]
+	try {
+		// 两种算法都在工作线程中压缩，不阻塞服务器刻
+		frames = await pool.exec<
+			(arg0: Uint8Array<ArrayBuffer>, arg1: number, arg2: string) => Uint8Array[]
+		>(
+			(pixels: Uint8Array<ArrayBuffer>, frameBytes: number, algorithm: string) => {
+				const frames: Uint8Array[] = []
+				for (let i = 0; i < pixels.length; i += frameBytes) {
+					const stripe = pixels.subarray(i, i + frameBytes)
+					frames.push(
+						algorithm === 'zstd'
+							? Bun.zstdCompressSync(stripe)
+							: Bun.deflateSync(stripe)
+					)
+				}
+				return frames
+			},
+			[pixels, rowsPerFrame * region.width * 3, algorithm]
+		)
+	} catch (e) {
+		logger.error(e, 'Failed to compress board frames')
+		ws.data.sendBuffer.write(encodeBoardHeader(id, 3, sequence, 0))
+		return
+	} finally {
+		ws.data.boardRequestPending = false
+	}
+	if (ws.readyState !== 1) return
+
+	ws.data.sendBuffer.write(encodeBoardHeader(id, 0, sequence, frames.length))
+	frames.forEach((data, i) => {
+		const y = region.y + i * rowsPerFrame
+		const frame = new Uint8Array(18 + data.length)
+		const view = new DataView(frame.buffer)
+		frame[0] = 0xea
+		view.setUint32(1, id, true)
+		view.setUint16(5, region.x, true)
+		view.setUint16(7, y, true)
+		view.setUint16(9, region.width, true)
+		view.setUint16(11, Math.min(rowsPerFrame, region.y + region.height - y), true)
+		frame[13] = compressionAlgorithms.indexOf(algorithm) + 1
+		view.setUint32(14, data.length, true)
+		frame.set(data, 18)
+		ws.data.sendBuffer.write(frame)
+	})
+}
+
+// 发布更新批次，同时发布到有订阅者的主题变体
+function publishBatch(
+	board: PaintBoardManager,
+	topic: string,
+	batch: Uint8Array,
+	sequence: number
+) {
+	const sent = server.publish(topic, batch, true)
+	// 区块主题的订阅者较少，只计一次
+	if (sent > 0)
+		globalPacketsSent += topic === board.topic ? ipConnections.size : 1
+
+	for (const sequenced of [false, true]) {
+		let payload: Uint8Array | undefined
+		for (const algorithm of [undefined, ...compressionAlgorithms]) {
+			const variant = topicVariant(topic, sequenced, algorithm)
+			if (variant === topic || !variantSubscribers.has(variant)) continue
+			payload ??= sequenced ? withSequence(batch, sequence) : batch
+			const data = algorithm ? compressBatch(payload, algorithm) : payload
+			if (server.publish(variant, data, !algorithm) > 0)
+				globalPacketsSent += variantSubscribers.get(variant)!
+		}
+	}
+}
+
 // 添加发送ping的辅助函数
 function sendPing(ws: Bun.ServerWebSocket<WebSocketData>) {
 	if (ws.data.waitingPong) {
@@ -0,0 +1,232 @@
+import { Database } from 'bun:sqlite'
+import { createHash } from 'crypto'
+
+export type Migration = {
+	version: number
+	description: string
+	up: (db: Database) => void
+}
+
+// 按版本号顺序执行，已发布的迁移不要修改，只能追加
+// 早期数据库可能已经有部分表，所以建表语句都带 IF NOT EXISTS
+export const migrations: Migration[] = [
+	{
+		version: 1,
+		description: 'Create board and token tables',
+		up: db =>
+			db.exec(`
+                CREATE TABLE IF NOT EXISTS board_data (
+                    id INTEGER PRIMARY KEY CHECK (id = 1),
+                    width INTEGER NOT NULL,
+                    height INTEGER NOT NULL,
+                    pixels BLOB NOT NULL
+                );
+                CREATE TABLE IF NOT EXISTS tokens (
+                    token TEXT PRIMARY KEY,
+                    uid INTEGER NOT NULL
+                );
+            `)
+	},
+	{
+		version: 2,
+		description: 'Create paint history',
+		up: db =>
+			db.exec(`
+                CREATE TABLE IF NOT EXISTS paint_history (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    x INTEGER NOT NULL,
+                    y INTEGER NOT NULL,
+                    color INTEGER NOT NULL,
+                    uid INTEGER NOT NULL,
+                    timestamp INTEGER NOT NULL,
+                    conn_id INTEGER NOT NULL,
+                    ip TEXT NOT NULL
+                );
+                CREATE INDEX IF NOT EXISTS idx_paint_history_pixel
+                    ON paint_history (y, x, id);
+                CREATE INDEX IF NOT EXISTS idx_paint_history_uid
+                    ON paint_history (uid, timestamp);
+            `)
+	},
+	{
+		version: 3,
+		description: 'Create board snapshots',
+		up: db =>
+			db.exec(`
+                CREATE TABLE IF NOT EXISTS board_snapshots (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    created_at INTEGER NOT NULL,
+                    width INTEGER NOT NULL,
+                    height INTEGER NOT NULL,
+                    pixels BLOB NOT NULL,
+                    manual INTEGER NOT NULL DEFAULT 0
+                );
+            `)
+	},
+	{
+		version: 4,
+		description: 'Track journal checkpoint in board_data',
+		up: db => {
+			const columns = db
+				.query('PRAGMA table_info(board_data)')
+				.all() as { name: string }[]
+			if (!columns.some(column => column.name === 'history_id')) {
+				db.exec(
+					'ALTER TABLE board_data ADD COLUMN history_id INTEGER NOT NULL DEFAULT 0'
+				)
+			}
+		}
+	},
+	{
+		version: 5,
+		description: 'Create ban tables',
+		up: db =>
+			db.exec(`
+                CREATE TABLE IF NOT EXISTS uid_bans (
+                    uid INTEGER PRIMARY KEY,
+                    reason TEXT NOT NULL,
+                    issued_by TEXT NOT NULL,
+                    created_at INTEGER NOT NULL,
+                    expires_at INTEGER
+                );
+                CREATE TABLE IF NOT EXISTS ip_bans (
+                    target TEXT PRIMARY KEY,
+                    reason TEXT NOT NULL,
+                    issued_by TEXT NOT NULL,
+                    created_at INTEGER NOT NULL,
+                    expires_at INTEGER
+                );
+            `)
+	},
+	{
+		version: 6,
+		description: 'Store multiple boards',
+		// 旧版本的数据属于名为 default 的绘版
+		up: db =>
+			db.exec(`
+                CREATE TABLE board_state (
+                    board TEXT PRIMARY KEY,
+                    width INTEGER NOT NULL,
+                    height INTEGER NOT NULL,
+                    pixels BLOB NOT NULL,
+                    history_id INTEGER NOT NULL DEFAULT 0
+                );
+                INSERT INTO board_state (board, width, height, pixels, history_id)
+                    SELECT 'default', width, height, pixels, history_id FROM board_data;
+                DROP TABLE board_data;
+
+                ALTER TABLE paint_history ADD COLUMN board TEXT NOT NULL DEFAULT 'default';
+                DROP INDEX IF EXISTS idx_paint_history_pixel;
+                DROP INDEX IF EXISTS idx_paint_history_uid;
+                CREATE INDEX idx_paint_history_board ON paint_history (board, id);
+                CREATE INDEX idx_paint_history_pixel ON paint_history (board, y, x, id);
+                CREATE INDEX idx_paint_history_uid ON paint_history (board, uid, timestamp);
+
+                ALTER TABLE board_snapshots ADD COLUMN board TEXT NOT NULL DEFAULT 'default';
+                CREATE INDEX idx_board_snapshots_board ON board_snapshots (board, created_at);
+            `)
+	},
+	{
+		version: 7,
+		description: 'Store token hashes with issue and expiry time',
+		// 已有的 Token 视为迁移时签发、永不过期
+		up: db => {
+			const rows = db.query('SELECT token, uid FROM tokens').all() as {
+				token: string
+				uid: number
+			}[]
+			db.exec(`
+                DROP TABLE tokens;
+                CREATE TABLE tokens (
+                    token_hash TEXT PRIMARY KEY,
+                    uid INTEGER NOT NULL,
+                    issued_at INTEGER NOT NULL,
+                    expires_at INTEGER
+                );
+                CREATE INDEX idx_tokens_uid ON tokens (uid);
+            `)
+			const insert = db.prepare(
+				'INSERT OR REPLACE INTO tokens (token_hash, uid, issued_at, expires_at) VALUES (?, ?, ?, NULL)'
+			)
+			const now = Date.now()
+			for (const { token, uid } of rows) {
+				insert.run(createHash('sha256').update(token).digest('hex'), uid, now)
+			}
+		}
+	},
+	{
+		version: 8,
+		description: 'Create cooldown tier and user tables',
+		up: db =>
+			db.exec(`
+                CREATE TABLE cooldown_tiers (
+                    name TEXT PRIMARY KEY,
+                    burst INTEGER NOT NULL,
+                    interval INTEGER NOT NULL
+                );
+                CREATE TABLE cooldown_users (
+                    uid INTEGER PRIMARY KEY,
+                    tier TEXT,
+                    burst INTEGER,
+                    interval INTEGER
+                );
+            `)
+	},
+	{
+		version: 9,
+		description: 'Create protected regions table',
+		up: db =>
+			db.exec(`
+                CREATE TABLE protected_regions (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    board TEXT NOT NULL,
+                    x INTEGER NOT NULL,
+                    y INTEGER NOT NULL,
+                    width INTEGER NOT NULL,
+                    height INTEGER NOT NULL,
+                    mask BLOB,
+                    allowed_uids TEXT NOT NULL DEFAULT '[]',
+                    reason TEXT NOT NULL DEFAULT '',
+                    created_by TEXT NOT NULL,
+                    created_at INTEGER NOT NULL
+                );
+                CREATE INDEX idx_protected_regions_board ON protected_regions (board);
+            `)
+	},
+	{
+		version: 10,
+		description: 'Record operator and restored owner of admin writes',
+		// 管理员写入记为 UID 0，owner_* 为写入后像素的归属 (回滚时为被还原的绘画者)
+		up: db =>
+			db.exec(`
+                ALTER TABLE paint_history ADD COLUMN operator TEXT;
+                ALTER TABLE paint_history ADD COLUMN owner_uid INTEGER;
+                ALTER TABLE paint_history ADD COLUMN owner_timestamp INTEGER;
+            `)
+	}
+]
+
+// 在一个事务中执行所有未应用的迁移，任何一步失败都会整体回滚
+export function runMigrations(db: Database) {
+	db.exec(
+		'CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL)'
+	)
+	const row = db.query('SELECT MAX(version) AS version FROM schema_version').get() as {
+		version: number | null
+	}
+	const current = row.version ?? 0
+	const pending = migrations.filter(m => m.version > current)
+	if (pending.length === 0) return
+
+	db.transaction(() => {
+		for (const migration of pending) {
+			migration.up(db)
+			db.run('INSERT INTO schema_version (version) VALUES (?)', [
+				migration.version
+			])
+			logger.info(
+				`Applied database migration ${migration.version}: ${migration.description}`
+			)
+		}
+	})()
+}
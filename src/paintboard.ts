@@ -1,39 +1,94 @@
 import {
 	type PaintBoard,
 	type Color,
-	type Token,
 	PaintResultCode,
 	type ColorUpdateListener,
-	type PixelData
+	type PixelData,
+	type PaintRecord,
+	type PaintSource,
+	type Region,
+	type RevertedPixel,
+	type SnapshotInfo,
+	type SnapshotRetentionRule,
+	type BoardOptions,
+	type UpdateBatch,
+	type CooldownPolicy,
+	type PalettePolicy,
+	type ProtectedRegion
 } from './types'
-import { randomUUID } from 'crypto'
 import { DBManager } from './database'
+import { TokenManager } from './tokens'
+import { CooldownManager } from './cooldown'
+import { type Bucket, refillBucket } from './ratelimit'
+import { BoardStats } from './stats'
 
 export class PaintBoardManager {
+	public readonly name: string
+	public readonly topic: string // WebSocket 发布订阅主题
+	public readonly activityStartTime: number
+	public readonly activityEndTime: number
 	private board: PaintBoard
 	private pixelView: Uint8Array // 用于访问 SharedArrayBuffer 的视图
-	private tokens: Map<string, Token> = new Map()
-	private paintDelay: number
-	private validationPaste: string
+	private tokens: TokenManager
+	public readonly paintDelay: number
+	private defaultCooldown: CooldownPolicy
+	public readonly palette: number[] | null
+	public readonly palettePolicy: PalettePolicy
+	private paletteColors: Set<number>
+	private cooldowns: CooldownManager
 	private db?: DBManager
 	private autoSaveInterval?: Timer
-	private lastPaintTime: Map<number, number> = new Map()
+	private journalTimer?: Timer
+	private snapshotTimer?: Timer
+	private snapshotRetention: SnapshotRetentionRule[]
+	private cooldownBuckets: Map<number, Bucket> = new Map() // 每个 UID 剩余的绘画次数
+	private protectedRegions: ProtectedRegion[] = []
+	public readonly stats: BoardStats
+	private nextRegionId = 1 // 不使用数据库时的区域 id
 	private colorUpdateListener?: ColorUpdateListener
 	private dirtyFlags: boolean[] = []
 	private dirtyList: number[] = []
 	// vis[][] 为 PixelData[][] 初始值为空
 	private vis: PixelData[] = []
 	private allowQuery: boolean = false
+	// 等待写入数据库的绘画历史，同时作为完整保存之间的增量日志
+	private pendingHistory: PaintRecord[] = []
+	private journalFlushInterval: number
+	public readonly chunkSize: number
+	public readonly chunksX: number
+	public readonly chunksY: number
+	private chunkSubscribers: number[] // 每个区块的订阅连接数
+	private lastSequence: number
+	// 最近的更新批次，用于断线续传，总字节数不超过 resyncBufferSize
+	private recentBatches: UpdateBatch[] = []
+	private recentBatchBytes = 0
+	private resyncBufferSize: number
 
 	constructor(
-		width: number,
-		height: number,
-		paintDelay: number,
-		validationPaste: string,
-		useDB: boolean,
-		clearBoard: boolean,
-		allowQuery: boolean,
+		options: BoardOptions,
+		tokens: TokenManager,
+		cooldowns: CooldownManager,
+		db?: DBManager
 	) {
+		const {
+			width,
+			height,
+			clearBoard,
+			allowQuery,
+			saveInterval,
+			journalFlushInterval,
+			snapshotInterval
+		} = options
+		this.name = options.name
+		this.topic = `paint:${options.name}`
+		this.activityStartTime = options.activityStartTime
+		this.activityEndTime = options.activityEndTime
+		this.tokens = tokens
+		this.cooldowns = cooldowns
+		this.palette = options.palette
+		this.palettePolicy = options.palettePolicy
+		this.paletteColors = new Set(options.palette)
+
 		// 初始化 SharedArrayBuffer
 		const bufferSize = width * height * 3 // 每个像素 3 字节(RGB)
 		const buffer = new SharedArrayBuffer(bufferSize)
@@ -44,101 +99,347 @@ export class PaintBoardManager {
 		}
 		this.pixelView = new Uint8Array(this.board.pixels)
 
-		if (useDB) {
-			this.db = new DBManager()
-
-			// 总是加载 Token
-			this.tokens = this.db.loadTokens()
-			logger.info('Loaded tokens from database')
+		if (db) {
+			this.db = db
 
 			// 只在不清空绘版时加载绘版数据
 			if (!clearBoard) {
-				const saved = this.db.loadBoard()
+				const saved = this.db.loadBoard(this.name)
 				if (saved) {
 					// 将加载的数据复制到 SharedArrayBuffer
 					this.board.width = saved.width
 					this.board.height = saved.height
 					new Uint8Array(this.board.pixels).set(saved.pixels)
-					logger.info('Loaded board state from database')
+					logger.info(`Loaded board ${this.name} from database`)
 				} else {
 					this.initializeBoard()
-					logger.info('Initialized new board (no data in database)')
+					logger.info(`Initialized new board ${this.name} (no data in database)`)
 				}
+				this.replayJournal(saved?.historyId ?? 0)
 			} else {
 				this.initializeBoard()
-				logger.info('Cleared board as requested')
+				logger.info(`Cleared board ${this.name} as requested`)
+				// 立即保存，避免之后重放清空前的历史
+				this.saveToDb()
 			}
 
-			this.autoSaveInterval = setInterval(() => this.saveToDb(), 5 * 60 * 1000)
+			this.autoSaveInterval = setInterval(() => this.saveToDb(), saveInterval)
+			if (journalFlushInterval > 0) {
+				this.journalTimer = setInterval(
+					() => this.flushHistory(),
+					journalFlushInterval
+				)
+			}
+			if (snapshotInterval > 0) {
+				this.snapshotTimer = setInterval(
+					() => this.createSnapshot(false),
+					snapshotInterval
+				)
+			}
 		} else {
 			this.initializeBoard()
 		}
+		if (this.db) {
+			this.protectedRegions = this.db.loadProtectedRegions(this.name)
+		}
 		this.allowQuery = allowQuery
 		if (allowQuery) {
-			this.vis = new Array(width * height).fill({ uid: 0, timestamp: 0 })
+			if (this.db && !clearBoard) {
+				// 从绘画历史恢复像素归属
+				this.vis = this.db.loadVis(
+					this.name,
+					this.board.width,
+					this.board.height
+				)
+				logger.info(`Rebuilt pixel ownership of board ${this.name} from paint history`)
+			} else {
+				this.vis = new Array(width * height).fill({ uid: 0, timestamp: 0 })
+			}
 		}
-		this.paintDelay = paintDelay
-		this.validationPaste = validationPaste
+		this.stats = new BoardStats(
+			this.board.width * this.board.height,
+			options.statsBucketSize
+		)
+		if (this.db) {
+			this.stats.loadPaints(this.db.paintsByBucket(this.name, options.statsBucketSize))
+			if (!clearBoard) {
+				this.stats.loadOwners(
+					allowQuery
+						? this.vis
+						: this.db.loadVis(this.name, this.board.width, this.board.height)
+				)
+			}
+		}
+		this.snapshotRetention = options.snapshotRetention
+		this.journalFlushInterval = journalFlushInterval
+		this.paintDelay = options.paintDelay
+		this.defaultCooldown = { burst: options.paintBurst, interval: options.paintDelay }
 		this.dirtyFlags = new Array(width * height).fill(false)
 		this.dirtyList = []
+		this.chunkSize = options.chunkSize
+		this.chunksX = Math.ceil(this.board.width / this.chunkSize)
+		this.chunksY = Math.ceil(this.board.height / this.chunkSize)
+		this.chunkSubscribers = new Array(this.chunksX * this.chunksY).fill(0)
+		// 以启动时间 (微秒) 为起点，重启后客户端持有的旧序号不会与新批次重复
+		this.lastSequence = Date.now() * 1000
+		this.resyncBufferSize = options.resyncBufferSize
+	}
+
+	// 将上次完整保存之后的绘画历史重放到绘版上
+	private replayJournal(historyId: number) {
+		let replayed = 0
+		for (const row of this.db!.historySince(this.name, historyId)) {
+			if (row.x >= this.board.width || row.y >= this.board.height) continue
+			const idx = (row.y * this.board.width + row.x) * 3
+			this.pixelView[idx] = (row.color >> 16) & 255
+			this.pixelView[idx + 1] = (row.color >> 8) & 255
+			this.pixelView[idx + 2] = row.color & 255
+			replayed++
+		}
+		if (replayed > 0) {
+			logger.info(`Replayed ${replayed} paints from journal`)
+		}
+	}
+
+	public get backgroundColor(): Color {
+		return paletteBackground(this.palette)
 	}
 
 	private initializeBoard() {
-		// 用灰色填充 SharedArrayBuffer
-		const grayValue = 170
-		for (let i = 0; i < this.pixelView.length; i++) {
-			this.pixelView[i] = grayValue
+		// 用背景色填充 SharedArrayBuffer
+		const { r, g, b } = this.backgroundColor
+		for (let i = 0; i < this.pixelView.length; i += 3) {
+			this.pixelView[i] = r
+			this.pixelView[i + 1] = g
+			this.pixelView[i + 2] = b
 		}
 	}
 
+	private nearestColor(color: Color): Color {
+		return nearestPaletteColor(this.palette, color)
+	}
+
+	// 按调色板检查颜色，不在调色板中时按策略吸附到最接近的颜色，或返回 null 表示拒绝
+	public applyPalette(color: Color): Color | null {
+		if (!this.palette) return color
+		if (this.paletteColors.has((color.r << 16) | (color.g << 8) | color.b)) return color
+		return this.palettePolicy === 'snap' ? this.nearestColor(color) : null
+	}
+
 	public getBoardBuffer(): Buffer {
 		// 直接返回 SharedArrayBuffer 的视图
 		return Buffer.from(this.pixelView)
 	}
 
+	// 复制矩形区域的像素 (RGB)，按行排列
+	public readRegion(region: Region): Uint8Array<ArrayBuffer> {
+		const { x, y, width, height } = region
+		const pixels = new Uint8Array(width * height * 3)
+		for (let row = 0; row < height; row++) {
+			const start = ((y + row) * this.board.width + x) * 3
+			pixels.set(this.pixelView.subarray(start, start + width * 3), row * width * 3)
+		}
+		return pixels
+	}
+
 	public getSharedArrayBuffer(): SharedArrayBuffer {
 		return this.board.pixels
 	}
 
+	public get width(): number {
+		return this.board.width
+	}
+
+	public get height(): number {
+		return this.board.height
+	}
+
 	public onColorUpdate(listener: ColorUpdateListener) {
 		this.colorUpdateListener = listener
 	}
 
-	public setPixel(x: number, y: number, color: Color, uid: number): boolean {
+	// 最近一次发布的更新批次序号
+	public get sequence(): number {
+		return this.lastSequence
+	}
+
+	// 返回序号大于 sequence 的批次，缓冲区中已经没有时返回 null
+	public batchesSince(sequence: number): UpdateBatch[] | null {
+		if (sequence > this.lastSequence) return null
+		if (sequence === this.lastSequence) return []
+		const first = this.recentBatches[0]
+		if (!first || first.sequence > sequence + 1) return null
+		return this.recentBatches.filter(entry => entry.sequence > sequence)
+	}
+
+	private recordBatch(sequence: number, batch: Uint8Array) {
+		this.recentBatches.push({ sequence, batch })
+		this.recentBatchBytes += batch.length
+		while (this.recentBatchBytes > this.resyncBufferSize) {
+			const dropped = this.recentBatches.shift()!
+			this.recentBatchBytes -= dropped.batch.length
+		}
+	}
+
+	public chunkTopic(chunk: number): string {
+		return `${this.topic}:${chunk}`
+	}
+
+	public addChunkSubscriber(chunk: number) {
+		this.chunkSubscribers[chunk]++
+	}
+
+	public removeChunkSubscriber(chunk: number) {
+		this.chunkSubscribers[chunk]--
+	}
+
+	public setPixel(
+		x: number,
+		y: number,
+		color: Color,
+		uid: number,
+		source: PaintSource = { connId: 0, ip: '' }
+	): boolean {
 		if (x < 0 || x >= this.board.width || y < 0 || y >= this.board.height) {
 			return false
 		}
+		const painted = this.applyPalette(color)
+		if (!painted) return false
 
+		const now = Date.now()
+		this.writePixel(x, y, painted, uid, now, source)
+		this.stats.recordPaint(uid, now)
+		return true
+	}
+
+	// 写入像素并记录历史、标记为脏
+	// owner 为写入后像素的归属，默认为本次写入者；回滚时历史记为管理员，归属还原为原来的绘画者
+	private writePixel(
+		x: number,
+		y: number,
+		color: Color,
+		uid: number,
+		timestamp: number,
+		source: PaintSource,
+		owner?: PixelData
+	) {
 		const idx = (y * this.board.width + x) * 3
 		this.pixelView[idx] = color.r
 		this.pixelView[idx + 1] = color.g
 		this.pixelView[idx + 2] = color.b
 		if (this.allowQuery) {
 			const idx_vis = (y * this.board.width + x)
-			this.vis[idx_vis] = { uid, timestamp: Date.now() }
+			this.vis[idx_vis] = owner ?? { uid, timestamp }
+		}
+		if (this.db) {
+			this.pendingHistory.push({
+				x,
+				y,
+				color,
+				uid,
+				timestamp,
+				connId: source.connId,
+				ip: source.ip,
+				operator: source.operator,
+				owner
+			})
 		}
 
 
 		// 将坐标转换为唯一标识
 		const pixelId = y * this.board.width + x
+		this.stats.recordOwner(pixelId, owner ?? { uid, timestamp })
 
 		// 如果该像素未被标记为脏，则加入脏像素列表并设置标记
 		if (!this.dirtyFlags[pixelId]) {
 			this.dirtyFlags[pixelId] = true
 			this.dirtyList.push(pixelId)
 		}
+	}
 
-		return true
+	// 将指定 UID 在时间段和区域内的绘画还原为之前的颜色
+	// 还原以管理员 (UID 0) 的名义在当前时间写入历史，像素归属还原为之前的绘画者
+	public rollback(
+		uids: number[],
+		startTime: number,
+		endTime: number,
+		region?: Region,
+		dryRun: boolean = false,
+		operator: string = 'root'
+	): RevertedPixel[] | null {
+		if (!this.db) return null
+
+		// 先写入尚未落盘的历史，保证查询完整
+		this.flushHistory()
+
+		const uidSet = new Set(uids)
+		const matches = (entry: { uid: number; timestamp: number }) =>
+			uidSet.has(entry.uid) &&
+			entry.timestamp >= startTime &&
+			entry.timestamp <= endTime
+
+		// 历史按像素分组、组内从新到旧，逐组找到最后一次匹配的绘画之前的记录
+		const history = this.db.paintedPixelHistory(
+			this.name,
+			uids,
+			startTime,
+			endTime,
+			region
+		)
+		const reverted: RevertedPixel[] = []
+		let i = 0
+		while (i < history.length) {
+			const { x, y } = history[i]
+			let end = i
+			while (end < history.length && history[end].x === x && history[end].y === y) {
+				end++
+			}
+			const entries = history.slice(i, end)
+			i = end
+			// 已被其他人 (包括管理员) 覆盖的像素不还原
+			if (x >= this.board.width || y >= this.board.height || !matches(entries[0])) {
+				continue
+			}
+
+			// 没有更早的记录时还原为背景色，像素变为无人绘画
+			const previous = entries.find(entry => !matches(entry))
+			reverted.push(
+				previous
+					? { x, y, color: previous.color, ...previous.owner }
+					: { x, y, color: this.backgroundColor, uid: 0, timestamp: 0 }
+			)
+		}
+
+		if (!dryRun) {
+			const now = Date.now()
+			for (const pixel of reverted) {
+				this.writePixel(
+					pixel.x,
+					pixel.y,
+					pixel.color,
+					0,
+					now,
+					{ connId: 0, ip: 'rollback', operator },
+					{ uid: pixel.uid, timestamp: pixel.timestamp }
+				)
+			}
+		}
+		return reverted
 	}
 
 	public flushUpdates() {
+		// 未配置日志写入间隔时每个服务器刻写入一次
+		if (this.journalFlushInterval === 0) this.flushHistory()
+
 		if (this.dirtyList.length > 0 && this.colorUpdateListener) {
 			const sink = new Bun.ArrayBufferSink()
 			sink.start({
 				asUint8Array: true
 			})
+			// 有订阅者的区块 -> 该区块内的更新在批次中的序号
+			const chunkRecords = new Map<number, number[]>()
 
-			for (const pixelId of this.dirtyList) {
+			for (const [i, pixelId] of this.dirtyList.entries()) {
 				const y = Math.floor(pixelId / this.board.width)
 				const x = pixelId % this.board.width
 				const color = {
@@ -163,107 +464,337 @@ export class PaintBoardManager {
 						color.b
 					])
 				)
+
+				const chunk =
+					Math.floor(y / this.chunkSize) * this.chunksX +
+					Math.floor(x / this.chunkSize)
+				if (this.chunkSubscribers[chunk] > 0) {
+					const records = chunkRecords.get(chunk)
+					if (records) records.push(i)
+					else chunkRecords.set(chunk, [i])
+				}
 			}
 
 			// 发送合并后的更新
-			this.colorUpdateListener(sink.end() as Uint8Array)
+			const batch = sink.end() as Uint8Array
+			const sequence = ++this.lastSequence
+			this.recordBatch(sequence, batch)
+			this.colorUpdateListener(this.topic, batch, sequence)
+
+			// 每个区块只发送区块内的更新
+			for (const [chunk, records] of chunkRecords) {
+				const chunkBatch = new Uint8Array(records.length * 8)
+				records.forEach((record, j) =>
+					chunkBatch.set(batch.subarray(record * 8, record * 8 + 8), j * 8)
+				)
+				this.colorUpdateListener(this.chunkTopic(chunk), chunkBatch, sequence)
+			}
 
 			// 清空脏像素列表
 			this.dirtyList.length = 0
 		}
 	}
 
-	public async generateToken(
-		uid: number,
-		paste: string
-	): Promise<{ token: string | null; error?: string }> {
-		const validation = await this.validatePaste(uid, paste)
-		if (validation.success) {
-			// 删除该 UID 的所有旧 Token
-			for (const [existingToken, info] of this.tokens.entries()) {
-				if (info.uid === uid) {
-					this.tokens.delete(existingToken)
-				}
-			}
-
-			const token = randomUUID()
-			const tokenInfo = {
-				uid,
-				token
+	private flushHistory() {
+		if (this.db && this.pendingHistory.length > 0) {
+			try {
+				this.db.appendHistory(this.name, this.pendingHistory)
+			} catch (e) {
+				logger.error(e, 'Failed to write paint history')
 			}
-			this.tokens.set(token, tokenInfo)
-			this.db?.deleteTokensByUid(uid) // 在数据库中也删除旧 Token
-			this.db?.saveToken(tokenInfo)
-			return { token }
+			this.pendingHistory = []
 		}
-		return { token: null, error: validation.error }
 	}
 
+	// 完整保存绘版，并将之前的日志合并进去
 	private saveToDb() {
 		if (this.db) {
-			this.db.saveBoard(this.pixelView, this.board.width, this.board.height)
-			logger.info('Board state saved to database')
+			this.flushHistory()
+			this.db.saveBoard(
+				this.name,
+				this.pixelView,
+				this.board.width,
+				this.board.height,
+				this.db.lastHistoryId(this.name)
+			)
+			logger.info(`Board ${this.name} saved to database`)
+		}
+	}
+
+	public createSnapshot(manual: boolean = true): SnapshotInfo | null {
+		if (!this.db) return null
+
+		const createdAt = Date.now()
+		const id = this.db.saveSnapshot(
+			this.name,
+			this.pixelView,
+			this.board.width,
+			this.board.height,
+			createdAt,
+			manual
+		)
+		logger.info(`Created snapshot #${id} of board ${this.name}`)
+		if (!manual) this.pruneSnapshots()
+		return {
+			id,
+			createdAt,
+			width: this.board.width,
+			height: this.board.height,
+			manual
+		}
+	}
+
+	// 按保留规则删除多余的快照
+	private pruneSnapshots() {
+		if (!this.db || this.snapshotRetention.length === 0) return
+
+		const now = Date.now()
+		// 从新到旧
+		const snapshots = this.db
+			.listSnapshots(this.name)
+			.filter(s => !s.manual)
+		const buckets = this.snapshotRetention.map(() => new Set<number>())
+		const expired: number[] = []
+
+		for (const [i, snapshot] of snapshots.entries()) {
+			// 总是保留最新的快照
+			let keep = i === 0
+			const age = now - snapshot.createdAt
+			this.snapshotRetention.forEach((rule, j) => {
+				if (age > rule.keep) return
+				// 每个时间段只保留最新的一个
+				const bucket = Math.floor(snapshot.createdAt / rule.interval)
+				if (!buckets[j].has(bucket)) {
+					buckets[j].add(bucket)
+					keep = true
+				}
+			})
+			if (!keep) expired.push(snapshot.id)
+		}
+
+		if (expired.length > 0) {
+			this.db.deleteSnapshots(expired)
+			logger.info(`Pruned ${expired.length} snapshots of board ${this.name}`)
 		}
 	}
 
+	public listSnapshots(): SnapshotInfo[] | null {
+		return this.db?.listSnapshots(this.name) ?? null
+	}
+
+	public deleteSnapshot(id: number): boolean {
+		if (!this.db?.loadSnapshot(this.name, id)) return false
+		this.db.deleteSnapshots([id])
+		return true
+	}
+
+	// 像素是否在 UID 不能绘画的受保护区域中
+	public isProtected(x: number, y: number, uid: number): boolean {
+		return this.protectedRegions.some(region => {
+			const dx = x - region.x
+			const dy = y - region.y
+			if (dx < 0 || dy < 0 || dx >= region.width || dy >= region.height) return false
+			if (region.allowedUids.includes(uid)) return false
+			if (!region.mask) return true
+			const bit = dy * region.width + dx
+			return (region.mask[bit >> 3] & (0x80 >> (bit & 7))) !== 0
+		})
+	}
+
+	public listProtectedRegions(): ProtectedRegion[] {
+		return this.protectedRegions
+	}
+
+	// 添加受保护区域，区域超出绘版或遮罩长度不符时返回 null
+	public addProtectedRegion(
+		region: Omit<ProtectedRegion, 'id' | 'createdAt'>
+	): ProtectedRegion | null {
+		const { x, y, width, height, mask } = region
+		if (
+			![x, y, width, height].every(Number.isInteger) ||
+			x < 0 ||
+			y < 0 ||
+			width < 1 ||
+			height < 1 ||
+			x + width > this.board.width ||
+			y + height > this.board.height ||
+			(mask && mask.length !== Math.ceil((width * height) / 8))
+		) {
+			return null
+		}
+
+		const createdAt = Date.now()
+		const id = this.db
+			? this.db.saveProtectedRegion(this.name, { ...region, createdAt })
+			: this.nextRegionId++
+		const saved = { ...region, id, createdAt }
+		this.protectedRegions.push(saved)
+		logger.info(
+			`Protected region #${id} of board ${this.name}: ${width}x${height} at (${x}, ${y})`
+		)
+		return saved
+	}
+
+	public deleteProtectedRegion(id: number): boolean {
+		const index = this.protectedRegions.findIndex(region => region.id === id)
+		if (index === -1) return false
+		this.protectedRegions.splice(index, 1)
+		this.db?.deleteProtectedRegion(this.name, id)
+		logger.info(`Deleted protected region #${id} of board ${this.name}`)
+		return true
+	}
+
+	public getSnapshot(
+		id: number
+	): (SnapshotInfo & { pixels: Uint8Array }) | null {
+		return this.db?.loadSnapshot(this.name, id) ?? null
+	}
+
+	// 管理员直接写入矩形区域，pixels 为 RGBA，不透明度低于一半的像素不写入
+	// 颜色总是吸附到调色板，不受受保护区域限制；作为 UID 0 记入绘画历史，返回改变的像素数
+	public stamp(region: Region, pixels: Uint8Array, operator: string): number {
+		const now = Date.now()
+		let changed = 0
+		for (let row = 0; row < region.height; row++) {
+			for (let column = 0; column < region.width; column++) {
+				const offset = (row * region.width + column) * 4
+				if (pixels[offset + 3] < 128) continue
+				const color = this.nearestColor({
+					r: pixels[offset],
+					g: pixels[offset + 1],
+					b: pixels[offset + 2]
+				})
+				const x = region.x + column
+				const y = region.y + row
+				const idx = (y * this.board.width + x) * 3
+				if (
+					this.pixelView[idx] === color.r &&
+					this.pixelView[idx + 1] === color.g &&
+					this.pixelView[idx + 2] === color.b
+				) {
+					continue
+				}
+				this.writePixel(x, y, color, 0, now, { connId: 0, ip: 'stamp', operator })
+				changed++
+			}
+		}
+		logger.info(
+			`${operator} stamped ${changed} pixels of board ${this.name} at (${region.x}, ${region.y})`
+		)
+		return changed
+	}
+
+	public restoreSnapshot(id: number, operator: string = 'root'): {
+		success: boolean
+		changed?: number
+		error?: string
+	} {
+		const snapshot = this.db?.loadSnapshot(this.name, id)
+		if (!snapshot) return { success: false, error: 'NOT_FOUND' }
+		if (
+			snapshot.width !== this.board.width ||
+			snapshot.height !== this.board.height
+		) {
+			return { success: false, error: 'SIZE_MISMATCH' }
+		}
+
+		// 还原前保存当前状态，以便撤销
+		this.createSnapshot()
+
+		// 只写入有变化的像素，通过脏像素列表向所有客户端重新同步
+		const now = Date.now()
+		let changed = 0
+		for (let pixelId = 0; pixelId < this.board.width * this.board.height; pixelId++) {
+			const idx = pixelId * 3
+			if (
+				this.pixelView[idx] === snapshot.pixels[idx] &&
+				this.pixelView[idx + 1] === snapshot.pixels[idx + 1] &&
+				this.pixelView[idx + 2] === snapshot.pixels[idx + 2]
+			) {
+				continue
+			}
+			this.writePixel(
+				pixelId % this.board.width,
+				Math.floor(pixelId / this.board.width),
+				{
+					r: snapshot.pixels[idx],
+					g: snapshot.pixels[idx + 1],
+					b: snapshot.pixels[idx + 2]
+				},
+				0,
+				now,
+				{ connId: 0, ip: 'restore', operator }
+			)
+			changed++
+		}
+		logger.info(
+			`${operator} restored snapshot #${id} of board ${this.name} (${changed} pixels changed)`
+		)
+		return { success: true, changed }
+	}
+
 	public shutdown() {
 		if (this.autoSaveInterval) {
 			clearInterval(this.autoSaveInterval)
 		}
-		if (this.db) {
-			this.saveToDb()
-			this.db.close()
+		if (this.snapshotTimer) {
+			clearInterval(this.snapshotTimer)
 		}
+		if (this.journalTimer) {
+			clearInterval(this.journalTimer)
+		}
+		this.saveToDb()
 	}
 
-	public validateToken(token: string, uid: number): PaintResultCode {
+	public validateToken(hash: string, uid: number, x: number, y: number, color: Color): PaintResultCode {
 		const now = Date.now()
-		const tokenInfo = this.tokens.get(token)
 
-		if (!tokenInfo) return PaintResultCode.INVALID_TOKEN
+		if (!this.tokens.validateHash(hash, uid))
+			return PaintResultCode.INVALID_TOKEN
 
-		if (tokenInfo.uid !== uid) return PaintResultCode.INVALID_TOKEN
+		// 在冷却之前检查，受保护的像素不消耗冷却
+		if (this.isProtected(x, y, uid)) return PaintResultCode.NO_PERMISSION
 
-		const lastPrint = this.lastPaintTime.get(tokenInfo.uid)
+		// 颜色不在调色板中且不吸附时直接拒绝，同样不消耗冷却
+		if (!this.applyPalette(color)) return PaintResultCode.BAD_FORMAT
 
-		if (lastPrint && now - lastPrint < this.paintDelay)
-			return PaintResultCode.COOLING
+		const bucket = this.cooldownBucket(uid, now)
+		if (bucket.tokens < 1) return PaintResultCode.COOLING
 
-		const result = PaintResultCode.SUCCESS
-		this.lastPaintTime.set(tokenInfo.uid, now)
-		return result
+		bucket.tokens--
+		return PaintResultCode.SUCCESS
 	}
 
-	private async validatePaste(
-		uid: number,
-		paste: string
-	): Promise<{ success: boolean; error?: string }> {
-		uid = parseInt(uid.toString())
-		try {
-			const resp = await fetch(
-				`https://www.luogu.com/paste/${paste}?_contentOnly=1`
-			)
-			if (resp.status === 404) {
-				return { success: false, error: 'PASTE_NOT_FOUND' }
-			}
-			if (resp.status !== 200) {
-				return { success: false }
-			}
-			const data = await resp.json()
-			if (data.code !== 200) {
-				return { success: false }
-			}
-			if (parseInt(data.currentData?.paste?.user?.uid) !== uid) {
-				return { success: false, error: 'UID_MISMATCH' }
-			}
-			if (data.currentData?.paste?.data !== this.validationPaste) {
-				return { success: false, error: 'CONTENT_MISMATCH' }
-			}
-			return { success: true }
-		} catch (e) {
-			logger.error(e, 'Failed to parse paste response')
-			return { success: false }
+	// 按 UID 当前的冷却策略恢复令牌，策略在运行时修改后立即生效
+	private cooldownBucket(uid: number, now: number): Bucket {
+		const { burst, interval } = this.cooldowns.policyFor(uid, this.defaultCooldown)
+		let bucket = this.cooldownBuckets.get(uid)
+		if (!bucket) {
+			bucket = { tokens: burst, updatedAt: now }
+			this.cooldownBuckets.set(uid, bucket)
+		} else {
+			refillBucket(bucket, burst, interval, now)
+		}
+		return bucket
+	}
+
+	// 距离该 UID 下次可以绘画的毫秒数
+	public nextPaintDelay(uid: number): number {
+		const { interval } = this.cooldowns.policyFor(uid, this.defaultCooldown)
+		const bucket = this.cooldownBucket(uid, Date.now())
+		return bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * interval)
+	}
+
+	// 矩形区域内每个像素最后的绘画者，按行排列；未开启 allowQuery 时返回 null
+	public readOwnership(region: Region): PixelData[] | null {
+		if (!this.allowQuery) return null
+		const { x, y, width, height } = region
+		const pixels: PixelData[] = []
+		for (let row = 0; row < height; row++) {
+			const start = (y + row) * this.board.width + x
+			pixels.push(...this.vis.slice(start, start + width))
 		}
+		return pixels
 	}
 
 	public getVis(x: number, y: number): PixelData {
@@ -274,3 +805,26 @@ export class PaintBoardManager {
 		return { uid: 0x39c5bb, timestamp: 0x39c5bb }
 	}
 }
+
+// 调色板中最接近的颜色，没有调色板时原样返回
+export function nearestPaletteColor(palette: number[] | null, color: Color): Color {
+	if (!palette) return color
+	let nearest = palette[0]
+	let nearestDistance = Infinity
+	for (const entry of palette) {
+		const dr = ((entry >> 16) & 255) - color.r
+		const dg = ((entry >> 8) & 255) - color.g
+		const db = (entry & 255) - color.b
+		const distance = dr * dr + dg * dg + db * db
+		if (distance < nearestDistance) {
+			nearest = entry
+			nearestDistance = distance
+		}
+	}
+	return { r: (nearest >> 16) & 255, g: (nearest >> 8) & 255, b: nearest & 255 }
+}
+
+// 空白绘版的灰色，有调色板时为其中最接近灰色的颜色
+export function paletteBackground(palette: number[] | null): Color {
+	return nearestPaletteColor(palette, { r: 170, g: 170, b: 170 })
+}
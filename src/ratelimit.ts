@@ -0,0 +1,95 @@
+export type Bucket = {
+	tokens: number
+	updatedAt: number
+}
+
+// 按经过的时间恢复令牌，interval 为 0 时没有限制，令牌总是满的
+export function refillBucket(
+	bucket: Bucket,
+	capacity: number,
+	interval: number,
+	now: number
+) {
+	bucket.tokens =
+		interval === 0
+			? capacity
+			: Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / interval)
+	bucket.updatedAt = now
+}
+
+// 按键分桶的令牌桶：容量为 capacity，每 interval 毫秒恢复一个令牌
+export class RateLimiter {
+	private buckets: Map<string, Bucket> = new Map()
+	private capacity: number
+	private interval: number
+
+	constructor(capacity: number, interval: number) {
+		this.capacity = capacity
+		this.interval = interval
+	}
+
+	// 取一个令牌，成功返回 0，否则返回需要等待的毫秒数；容量为 0 时不限制
+	public take(key: string): number {
+		if (this.capacity === 0) return 0
+		const now = Date.now()
+		const bucket = this.refill(key, now)
+		if (bucket.tokens >= 1) {
+			bucket.tokens--
+			return 0
+		}
+		return Math.ceil((1 - bucket.tokens) * this.interval)
+	}
+
+	private refill(key: string, now: number): Bucket {
+		let bucket = this.buckets.get(key)
+		if (!bucket) {
+			bucket = { tokens: this.capacity, updatedAt: now }
+			this.buckets.set(key, bucket)
+			return bucket
+		}
+		refillBucket(bucket, this.capacity, this.interval, now)
+		return bucket
+	}
+
+	// 删除已经恢复满的桶，避免长期运行时占用内存
+	public prune() {
+		const now = Date.now()
+		for (const [key, bucket] of this.buckets) {
+			if (bucket.tokens + (now - bucket.updatedAt) / this.interval >= this.capacity) {
+				this.buckets.delete(key)
+			}
+		}
+	}
+}
+
+// 短期缓存失败的结果，相同的请求在过期前直接返回缓存的错误
+export class FailureCache<T> {
+	private entries: Map<string, { value: T; expiresAt: number }> = new Map()
+	private ttl: number
+
+	constructor(ttl: number) {
+		this.ttl = ttl
+	}
+
+	public get(key: string): T | undefined {
+		const entry = this.entries.get(key)
+		if (!entry) return undefined
+		if (Date.now() >= entry.expiresAt) {
+			this.entries.delete(key)
+			return undefined
+		}
+		return entry.value
+	}
+
+	public set(key: string, value: T) {
+		if (this.ttl === 0) return
+		this.entries.set(key, { value, expiresAt: Date.now() + this.ttl })
+	}
+
+	public prune() {
+		const now = Date.now()
+		for (const [key, entry] of this.entries) {
+			if (now >= entry.expiresAt) this.entries.delete(key)
+		}
+	}
+}
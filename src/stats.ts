@@ -0,0 +1,123 @@
+import { type PixelData, type UserStats } from './types'
+
+const UNPAINTED = 0xffffffff
+
+// 单个绘版的统计，启动时从绘画历史加载一次，之后随每次绘画增量更新
+// 管理员写入 (快照还原、回滚、stamp) 只改变像素归属，不计入绘画次数
+export class BoardStats {
+	private totalPaints: Map<number, number> = new Map()
+	private lastPaint: Map<number, number> = new Map()
+	private owners: Uint32Array // 每个像素最后的绘画者，没有人画过时为 UNPAINTED
+	private ownedPixels: Map<number, number> = new Map()
+	// 按时间段统计的绘画次数，键为时间段的开始时间
+	private buckets: Map<number, Map<number, number>> = new Map()
+	private bucketSize: number
+
+	constructor(pixelCount: number, bucketSize: number) {
+		this.owners = new Uint32Array(pixelCount).fill(UNPAINTED)
+		this.bucketSize = bucketSize
+	}
+
+	// 从像素归属恢复拥有的像素数，没有人画过的像素不计入
+	public loadOwners(vis: PixelData[]) {
+		vis.forEach((pixel, i) => {
+			if (pixel.timestamp === 0) return
+			this.owners[i] = pixel.uid
+			this.ownedPixels.set(pixel.uid, (this.ownedPixels.get(pixel.uid) ?? 0) + 1)
+		})
+	}
+
+	// 从绘画历史按时间段汇总的结果恢复绘画次数
+	public loadPaints(
+		rows: Iterable<{ uid: number; bucket: number; paints: number; lastPaint: number }>
+	) {
+		for (const { uid, bucket, paints, lastPaint } of rows) {
+			this.addPaints(uid, bucket * this.bucketSize, paints, lastPaint)
+		}
+	}
+
+	private addPaints(uid: number, bucketStart: number, paints: number, timestamp: number) {
+		this.totalPaints.set(uid, (this.totalPaints.get(uid) ?? 0) + paints)
+		this.lastPaint.set(uid, Math.max(this.lastPaint.get(uid) ?? 0, timestamp))
+		let bucket = this.buckets.get(bucketStart)
+		if (!bucket) {
+			bucket = new Map()
+			this.buckets.set(bucketStart, bucket)
+		}
+		bucket.set(uid, (bucket.get(uid) ?? 0) + paints)
+	}
+
+	public recordPaint(uid: number, timestamp: number) {
+		const bucketStart = timestamp - (timestamp % this.bucketSize)
+		this.addPaints(uid, bucketStart, 1, timestamp)
+	}
+
+	// 和 loadOwners 一致，时间为 0 (回滚到无人绘画) 时像素不属于任何人
+	public recordOwner(pixelId: number, owner: PixelData) {
+		const previous = this.owners[pixelId]
+		if (previous !== UNPAINTED) {
+			const owned = this.ownedPixels.get(previous)! - 1
+			if (owned > 0) this.ownedPixels.set(previous, owned)
+			else this.ownedPixels.delete(previous)
+		}
+		if (owner.timestamp === 0) {
+			this.owners[pixelId] = UNPAINTED
+			return
+		}
+		this.owners[pixelId] = owner.uid
+		this.ownedPixels.set(owner.uid, (this.ownedPixels.get(owner.uid) ?? 0) + 1)
+	}
+
+	// 按绘画次数或拥有的像素数排列的前 limit 名，管理员写入的像素 (UID 0) 不参与排行
+	public leaderboard(
+		type: 'paints' | 'pixels',
+		limit: number
+	): { uid: number; value: number }[] {
+		if (type === 'paints') return top(this.totalPaints, limit)
+		return top(this.ownedPixels, limit + 1).filter(entry => entry.uid !== 0).slice(0, limit)
+	}
+
+	// 最近 duration 毫秒内画过的 UID 数
+	public activePainters(duration: number): number {
+		const since = Date.now() - duration
+		let count = 0
+		for (const timestamp of this.lastPaint.values()) {
+			if (timestamp >= since) count++
+		}
+		return count
+	}
+
+	// 时间段内绘画次数最多的 UID，时间按 bucketSize 对齐，包含 end 所在的时间段
+	public topContributors(
+		start: number,
+		end: number,
+		limit: number
+	): { start: number; end: number; users: { uid: number; value: number }[] } {
+		const from = start - (start % this.bucketSize)
+		const to = end - (end % this.bucketSize) + this.bucketSize
+		const paints = new Map<number, number>()
+		for (const [bucketStart, bucket] of this.buckets) {
+			if (bucketStart < from || bucketStart >= to) continue
+			for (const [uid, count] of bucket) {
+				paints.set(uid, (paints.get(uid) ?? 0) + count)
+			}
+		}
+		return { start: from, end: to, users: top(paints, limit) }
+	}
+
+	public userStats(uid: number): UserStats {
+		return {
+			uid,
+			paints: this.totalPaints.get(uid) ?? 0,
+			pixels: this.ownedPixels.get(uid) ?? 0,
+			lastPaint: this.lastPaint.get(uid) ?? null
+		}
+	}
+}
+
+function top(values: Map<number, number>, limit: number): { uid: number; value: number }[] {
+	return [...values]
+		.map(([uid, value]) => ({ uid, value }))
+		.sort((a, b) => b.value - a.value || a.uid - b.uid)
+		.slice(0, limit)
+}
@@ -0,0 +1,283 @@
+import { type TimelapseOptions } from './types'
+import { DBManager } from './database'
+
+// 从快照和绘画历史重放出延时动画，重放和逐帧编码在线程池中进行
+export async function renderTimelapse(
+	db: DBManager,
+	dbPath: string,
+	options: TimelapseOptions
+): Promise<Uint8Array> {
+	const { board, width, height, startTime, endTime, frameInterval, scale, format } =
+		options
+
+	// 从开始时间之前最近的快照开始重放，没有快照时从空白绘版重放全部历史
+	const snapshot = db.snapshotBefore(board, startTime, width, height)
+	let base = snapshot?.pixels
+	if (!base) {
+		base = new Uint8Array(width * height * 3)
+		for (let i = 0; i < base.length; i += 3) {
+			base[i] = options.background.r
+			base[i + 1] = options.background.g
+			base[i + 2] = options.background.b
+		}
+	}
+	const replayFrom = snapshot?.createdAt ?? 0
+
+	const frames = await pool.exec<
+		(
+			arg0: string,
+			arg1: string,
+			arg2: Uint8Array,
+			arg3: number,
+			arg4: number,
+			arg5: number,
+			arg6: number,
+			arg7: number,
+			arg8: number,
+			arg9: number,
+			arg10: string
+		) => Promise<Uint8Array[]>
+	>(
+		async (
+			dbPath: string,
+			board: string,
+			pixels: Uint8Array,
+			width: number,
+			height: number,
+			replayFrom: number,
+			startTime: number,
+			endTime: number,
+			frameInterval: number,
+			scale: number,
+			format: string
+		) => {
+			const { Database } = await import('bun:sqlite')
+			const sharp = await import('sharp')
+			const outputWidth = Math.max(1, Math.round(width * scale))
+			const outputHeight = Math.max(1, Math.round(height * scale))
+			const frames: Uint8Array[] = []
+			const encodeFrame = async () => {
+				let image = sharp.default(pixels, { raw: { width, height, channels: 3 } })
+				if (scale !== 1) {
+					image = image.resize(outputWidth, outputHeight, { kernel: 'nearest' })
+				}
+				const frame =
+					format === 'zip'
+						? await image.png().toBuffer()
+						: await image.webp({ lossless: true }).toBuffer()
+				frames.push(new Uint8Array(frame))
+			}
+
+			// 线程中单独打开只读连接，WAL 模式下不影响服务器写入
+			const db = new Database(dbPath, { readonly: true })
+			try {
+				const rows = db
+					.query(
+						'SELECT x, y, color, timestamp FROM paint_history WHERE board = ? AND timestamp >= ? AND timestamp <= ? ORDER BY id'
+					)
+					.iterate(board, replayFrom, endTime) as IterableIterator<{
+					x: number
+					y: number
+					color: number
+					timestamp: number
+				}>
+
+				let frameTime = startTime
+				for (const { x, y, color, timestamp } of rows) {
+					// 输出这条记录之前已经到达的帧
+					while (timestamp > frameTime) {
+						await encodeFrame()
+						frameTime += frameInterval
+					}
+					if (x >= width || y >= height) continue
+					const offset = (y * width + x) * 3
+					pixels[offset] = (color >> 16) & 255
+					pixels[offset + 1] = (color >> 8) & 255
+					pixels[offset + 2] = color & 255
+				}
+				while (frameTime <= endTime) {
+					await encodeFrame()
+					frameTime += frameInterval
+				}
+			} finally {
+				db.close()
+			}
+			return frames
+		},
+		[
+			dbPath,
+			board,
+			base,
+			width,
+			height,
+			replayFrom,
+			startTime,
+			endTime,
+			frameInterval,
+			scale,
+			format
+		]
+	)
+
+	return format === 'zip'
+		? createZip(
+				frames.map((data, i) => ({
+					name: `frame-${i.toString().padStart(6, '0')}.png`,
+					data
+				}))
+		  )
+		: createAnimatedWebP(
+				frames,
+				Math.max(1, Math.round(width * scale)),
+				Math.max(1, Math.round(height * scale)),
+				options.frameDelay
+		  )
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+	const data = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+	let offset = 0
+	for (const part of parts) {
+		data.set(part, offset)
+		offset += part.length
+	}
+	return data
+}
+
+function writeUint24(view: DataView, offset: number, value: number) {
+	view.setUint8(offset, value & 255)
+	view.setUint8(offset + 1, (value >> 8) & 255)
+	view.setUint8(offset + 2, (value >> 16) & 255)
+}
+
+function chunk(fourCC: string, payload: Uint8Array): Uint8Array {
+	// 块数据长度为奇数时补一个字节
+	const data = new Uint8Array(8 + payload.length + (payload.length & 1))
+	const view = new DataView(data.buffer)
+	data.set(new TextEncoder().encode(fourCC), 0)
+	view.setUint32(4, payload.length, true)
+	data.set(payload, 8)
+	return data
+}
+
+// 取出单帧 WebP 中的图像数据块 (ALPH、VP8、VP8L)
+function imageChunks(webp: Uint8Array): Uint8Array[] {
+	const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength)
+	const chunks: Uint8Array[] = []
+	for (let offset = 12; offset + 8 <= webp.length; ) {
+		const fourCC = new TextDecoder().decode(webp.subarray(offset, offset + 4))
+		const size = view.getUint32(offset + 4, true)
+		const end = offset + 8 + size + (size & 1)
+		if (fourCC === 'ALPH' || fourCC === 'VP8 ' || fourCC === 'VP8L') {
+			chunks.push(webp.subarray(offset, end))
+		}
+		offset = end
+	}
+	return chunks
+}
+
+// 把逐帧编码的 WebP 组装为循环播放的动画 WebP
+function createAnimatedWebP(
+	frames: Uint8Array[],
+	width: number,
+	height: number,
+	frameDelay: number
+): Uint8Array {
+	const vp8x = new Uint8Array(10)
+	const vp8xView = new DataView(vp8x.buffer)
+	vp8x[0] = 0x02 // 动画标志
+	writeUint24(vp8xView, 4, width - 1)
+	writeUint24(vp8xView, 7, height - 1)
+
+	const anim = new Uint8Array(6) // 背景色为透明，无限循环
+
+	const parts = [chunk('VP8X', vp8x), chunk('ANIM', anim)]
+	for (const frame of frames) {
+		const header = new Uint8Array(16)
+		const view = new DataView(header.buffer)
+		writeUint24(view, 6, width - 1)
+		writeUint24(view, 9, height - 1)
+		writeUint24(view, 12, frameDelay)
+		header[15] = 0x02 // 不混合，直接覆盖上一帧
+		parts.push(chunk('ANMF', concat([header, ...imageChunks(frame)])))
+	}
+
+	return chunk('RIFF', concat([new TextEncoder().encode('WEBP'), ...parts]))
+}
+
+// 不压缩的 zip (PNG 本身已经压缩过)
+function createZip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+	const local: Uint8Array[] = []
+	const central: Uint8Array[] = []
+	let offset = 0
+
+	for (const { name, data } of files) {
+		const nameBytes = new TextEncoder().encode(name)
+		const crc = Bun.hash.crc32(data)
+
+		const header = new Uint8Array(30 + nameBytes.length)
+		const view = new DataView(header.buffer)
+		view.setUint32(0, 0x04034b50, true)
+		view.setUint16(4, 20, true) // 需要的版本
+		view.setUint16(12, 0x21, true) // 1980-01-01
+		view.setUint32(14, crc, true)
+		view.setUint32(18, data.length, true)
+		view.setUint32(22, data.length, true)
+		view.setUint16(26, nameBytes.length, true)
+		header.set(nameBytes, 30)
+		local.push(header, data)
+
+		const entry = new Uint8Array(46 + nameBytes.length)
+		const entryView = new DataView(entry.buffer)
+		entryView.setUint32(0, 0x02014b50, true)
+		entryView.setUint16(4, 20, true) // 创建的版本
+		entryView.setUint16(6, 20, true) // 需要的版本
+		entryView.setUint16(14, 0x21, true)
+		entryView.setUint32(16, crc, true)
+		entryView.setUint32(20, data.length, true)
+		entryView.setUint32(24, data.length, true)
+		entryView.setUint16(28, nameBytes.length, true)
+		entryView.setUint32(42, offset, true)
+		entry.set(nameBytes, 46)
+		central.push(entry)
+
+		offset += header.length + data.length
+	}
+
+	const centralSize = central.reduce((size, entry) => size + entry.length, 0)
+	const end = new Uint8Array(22)
+	const endView = new DataView(end.buffer)
+	endView.setUint32(0, 0x06054b50, true)
+	endView.setUint16(8, files.length, true)
+	endView.setUint16(10, files.length, true)
+	endView.setUint32(12, centralSize, true)
+	endView.setUint32(16, offset, true)
+	return concat([...local, ...central, end])
+}
+
+// 检查参数，返回错误信息
+export function checkTimelapseOptions(
+	options: TimelapseOptions,
+	maxFrames: number,
+	maxSize: number
+): string | null {
+	const { startTime, endTime, frameInterval, frameDelay, scale, format } = options
+	if (![startTime, endTime, frameInterval, frameDelay].every(Number.isInteger)) {
+		return 'startTime, endTime, frameInterval and frameDelay must be integers'
+	}
+	if (endTime < startTime) return 'endTime must not be earlier than startTime'
+	if (frameInterval <= 0) return 'frameInterval must be positive'
+	if (frameDelay < 0 || frameDelay > 0xffffff) return 'frameDelay out of range'
+	if (Math.floor((endTime - startTime) / frameInterval) + 1 > maxFrames) {
+		return `Timelapse must not exceed ${maxFrames} frames`
+	}
+	if (
+		!(scale > 0) ||
+		options.width * scale > maxSize ||
+		options.height * scale > maxSize
+	) {
+		return 'scale out of range'
+	}
+	if (format !== 'webp' && format !== 'zip') return 'format must be webp or zip'
+	return null
+}
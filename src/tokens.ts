@@ -0,0 +1,120 @@
+import {
+	type TokenInfo,
+	type TokenRevokedListener,
+	type AuthError
+} from './types'
+import { createHash, randomUUID } from 'crypto'
+import { DBManager } from './database'
+import { type AuthProvider } from './auth'
+
+// 只保存和比较 Token 的哈希，数据库泄露时无法用来绘画
+export function hashToken(token: string): string {
+	return createHash('sha256').update(token).digest('hex')
+}
+
+// 所有绘版共用的 Token 存储，键为 Token 的哈希
+export class TokenManager {
+	private tokens: Map<string, TokenInfo> = new Map()
+	private auth: AuthProvider
+	private tokenTTL: number
+	private db?: DBManager
+	private revokedListener?: TokenRevokedListener
+
+	constructor(auth: AuthProvider, tokenTTL: number, db?: DBManager) {
+		this.auth = auth
+		this.tokenTTL = tokenTTL
+		this.db = db
+		if (db) {
+			this.tokens = db.loadTokens()
+			logger.info('Loaded tokens from database')
+		}
+	}
+
+	// 通过配置的 AuthProvider 验证后签发新 Token
+	public async generateToken(
+		uid: number,
+		credential: string
+	): Promise<{ token: string | null; expiresAt?: number | null; error?: AuthError }> {
+		const validation = await this.auth.verify(uid, credential)
+		if (validation.success) {
+			// 删除该 UID 的所有旧 Token
+			this.revokeMemory(uid)
+
+			const token = randomUUID()
+			const now = Date.now()
+			const tokenInfo: TokenInfo = {
+				uid,
+				issuedAt: now,
+				expiresAt: this.tokenTTL > 0 ? now + this.tokenTTL : null
+			}
+			const hash = hashToken(token)
+			this.tokens.set(hash, tokenInfo)
+			this.db?.saveToken(hash, tokenInfo) // 同时删除数据库中的旧 Token
+			return { token, expiresAt: tokenInfo.expiresAt }
+		}
+		return { token: null, error: validation.error }
+	}
+
+	// Token 失效时通知，用于清理连接上绑定的 Token
+	public onTokenRevoked(listener: TokenRevokedListener) {
+		this.revokedListener = listener
+	}
+
+	private revokeMemory(uid: number): number {
+		let count = 0
+		for (const [hash, info] of this.tokens.entries()) {
+			if (info.uid === uid) {
+				this.tokens.delete(hash)
+				this.revokedListener?.(hash, uid)
+				count++
+			}
+		}
+		return count
+	}
+
+	// 吊销该 UID 的所有 Token，立即生效，返回吊销的数量
+	public revokeUID(uid: number): number {
+		const count = this.revokeMemory(uid)
+		this.db?.deleteTokensByUid(uid)
+		if (count > 0) logger.info(`Revoked ${count} tokens of UID ${uid}`)
+		return count
+	}
+
+	// Token 元数据，不包含 Token 本身；id 为哈希前缀，便于区分
+	public listTokens(uid?: number): ({ id: string } & TokenInfo)[] {
+		const now = Date.now()
+		return [...this.tokens.entries()]
+			.filter(([, info]) => uid === undefined || info.uid === uid)
+			.filter(([, info]) => info.expiresAt === null || info.expiresAt > now)
+			.map(([hash, info]) => ({ id: hash.slice(0, 12), ...info }))
+	}
+
+	// 检查 Token 是否有效且属于该 UID，参数为 hashToken 的结果
+	public validateHash(hash: string, uid: number): boolean {
+		const tokenInfo = this.tokens.get(hash)
+		if (tokenInfo === undefined || tokenInfo.uid !== uid) return false
+		if (tokenInfo.expiresAt !== null && Date.now() >= tokenInfo.expiresAt) {
+			this.expire(hash, uid)
+			return false
+		}
+		return true
+	}
+
+	// 删除所有已过期的 Token，空闲连接上绑定的 Token 不会被验证，需要定期清理
+	public sweepExpired(): number {
+		const now = Date.now()
+		let count = 0
+		for (const [hash, info] of this.tokens.entries()) {
+			if (info.expiresAt === null || now < info.expiresAt) continue
+			this.expire(hash, info.uid)
+			count++
+		}
+		return count
+	}
+
+	private expire(hash: string, uid: number) {
+		this.tokens.delete(hash)
+		this.db?.deleteToken(hash)
+		this.revokedListener?.(hash, uid)
+	}
+}
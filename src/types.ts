@@ -12,9 +12,10 @@ export type PaintBoard = {
 	pixels: SharedArrayBuffer
 }
 
-export type Token = {
+export type TokenInfo = {
 	uid: number
-	token: string
+	issuedAt: number
+	expiresAt: number | null // null 表示永不过期
 }
 
 export type PixelData = {
@@ -22,38 +23,304 @@ export type PixelData = {
 	timestamp: number
 }
 
+// 一次成功绘画的历史记录
+export type PaintRecord = {
+	x: number
+	y: number
+	color: Color
+	uid: number
+	timestamp: number
+	connId: number
+	ip: string
+	operator?: string
+	owner?: PixelData // 与 uid、timestamp 不同时记录，见 PaintBoardManager.rollback
+}
+
+// 绘画来源 (WebSocket 连接)，管理员写入时 connId 为 0 并记录操作者
+export type PaintSource = {
+	connId: number
+	ip: string
+	operator?: string
+}
+
 export enum PaintResultCode {
 	SUCCESS = 0xef,
 	INVALID_TOKEN = 0xed,
 	COOLING = 0xee,
 	BAD_FORMAT = 0xec,
 	NO_PERMISSION = 0xeb,
-	SERVER_ERROR = 0xea
+	SERVER_ERROR = 0xea,
+	SLOTS_FULL = 0xe9 // 只用于 0xf3，连接绑定的 Token 数达到上限
+}
+
+// 扩展协议版本，随 0xf4/0xf5 握手包交换
+export const PROTOCOL_VERSION = 1
+
+// 握手时交换的功能标志
+export enum Capability {
+	CHUNK_SUBSCRIPTION = 1 << 0, // 0xf9 区块订阅
+	COMPRESSION_DEFLATE = 1 << 1, // 0xf7 deflate 压缩
+	COMPRESSION_ZSTD = 1 << 2, // 0xf7 zstd 压缩
+	TOKEN_BINDING = 1 << 3, // 0xf3 绑定 Token，0xf1 精简绘画
+	SEQUENCED_UPDATES = 1 << 4, // 更新批次前附带 0xef 序号，0xee 断线续传
+	BOARD_REQUEST = 1 << 5, // 0xec 通过 WebSocket 获取绘版
+	PAINT_COOLDOWN = 1 << 6, // 绘画结果后附带 0xe9 下次可以绘画的时间
+	PALETTE = 1 << 7 // 0xf4 之后发送 0xe8 绘版的调色板
 }
 
 export type TokenRequest = {
 	uid: number
-	paste: string
+	paste?: string // 兼容 LSP-Reforged，等同于 credential
+	credential?: string
 }
 
+export type AuthError =
+	| 'PASTE_NOT_FOUND'
+	| 'UID_MISMATCH'
+	| 'CONTENT_MISMATCH'
+	| 'UID_NOT_ALLOWED'
+	| 'INVALID_CREDENTIAL'
+	| 'TICKET_EXPIRED'
+
 export type BanUidData = {
 	token: string
 	uid: number
 	time: number
+	duration?: number // 封禁时长 (ms)，不填为永久
+	reason?: string
+	operator?: string
+}
+
+export type TokenAdminData = {
+	token: string
+	uid?: number // 吊销时必填，列出时不填为所有 UID
+}
+
+// 冷却策略：令牌桶最多积攒 burst 次绘画，每 interval 毫秒恢复一次
+// burst 为 1 时等同于固定的 paintDelay，interval 为 0 时没有冷却
+export type CooldownPolicy = {
+	burst: number
+	interval: number
+}
+
+// 单个 UID 的冷却设置，policy 优先于 tier，都没有时使用绘版的默认策略
+export type UserCooldown = {
+	tier: string | null
+	policy: CooldownPolicy | null
+}
+
+export type CooldownData = {
+	token: string
+	name?: string // 等级名
+	uid?: number
+	tier?: string | null
+	burst?: number
+	interval?: number
+}
+
+export type BanIpData = {
+	token: string
+	ip: string // 单个 IP 或 CIDR
+	duration?: number
+	reason?: string
+	operator?: string
+}
+
+export type BanInfo = {
+	reason: string
+	issuedBy: string
+	createdAt: number
+	expiresAt: number | null // null 为永久封禁
 }
 
 export type QueryVisData = {
     token: string
+	board?: string
+	x: number
+	y: number
+}
+
+export type OwnershipFormat = 'json' | 'binary' | 'heatmap'
+
+export type OwnershipData = {
+	token: string
+	board?: string
+	x: number
+	y: number
+	width: number
+	height: number
+	format?: OwnershipFormat
+	scale?: number // 只用于 heatmap
+}
+
+// 区域内一个 UID 当前拥有的像素
+export type OwnershipSummary = {
+	uid: number
+	pixels: number
+	firstPaint: number // 这些像素中最早的绘画时间
+	lastPaint: number
+}
+
+export type UserStats = {
+	uid: number
+	paints: number // 成功的绘画次数
+	pixels: number // 当前拥有的像素数
+	lastPaint: number | null
+}
+
+export type Region = {
 	x: number
 	y: number
+	width: number
+	height: number
+}
+
+export type RollbackData = {
+	token: string
+	board?: string
+	uid: number | number[]
+	startTime?: number
+	endTime?: number
+	region?: Region
+	dryRun?: boolean
+	operator?: string
+}
+
+export type StampData = {
+	token: string
+	board?: string
+	x: number
+	y: number
+	width?: number // 不填时为图片的尺寸，填写时图片缩放到该尺寸
+	height?: number
+	image?: string // base64 编码的 PNG 或 WebP
+	color?: string // '#rrggbb'，image 和 color 都不填时为绘版的背景色
+	operator?: string
+}
+
+// 回滚时被还原的像素
+export type RevertedPixel = {
+	x: number
+	y: number
+	color: Color
+	uid: number
+	timestamp: number
 }
 
+// 快照保留规则：在 keep 毫秒内，每 interval 毫秒保留一个快照
+export type SnapshotRetentionRule = {
+	interval: number
+	keep: number
+}
+
+// 单个绘版的配置
+// 颜色不在调色板中时拒绝绘画 (BAD_FORMAT)，或改为调色板中最接近的颜色
+export type PalettePolicy = 'reject' | 'snap'
+
+export type BoardOptions = {
+	name: string
+	width: number
+	height: number
+	paintDelay: number
+	paintBurst: number
+	palette: number[] | null // 0xrrggbb，null 为不限制颜色
+	palettePolicy: PalettePolicy
+	clearBoard: boolean
+	allowQuery: boolean
+	activityStartTime: number
+	activityEndTime: number
+	saveInterval: number
+	journalFlushInterval: number
+	snapshotInterval: number
+	snapshotRetention: SnapshotRetentionRule[]
+	chunkSize: number
+	resyncBufferSize: number
+	statsBucketSize: number
+}
+
+export type SnapshotInfo = {
+	id: number
+	createdAt: number
+	width: number
+	height: number
+	manual: boolean // 手动创建的快照不受保留规则影响
+}
+
+export type ImageFormat = 'raw' | 'png' | 'webp'
+
+export type SnapshotData = {
+	token: string
+	board?: string
+	id?: number
+	format?: ImageFormat
+	operator?: string // 还原时记入绘画历史
+}
+
+// 受保护的区域，只有 allowedUids 中的 UID 可以在其中绘画
+export type ProtectedRegion = Region & {
+	id: number
+	mask: Uint8Array | null // 区域内每个像素一位，按行排列，高位在前；null 为整个矩形
+	allowedUids: number[]
+	reason: string
+	createdBy: string
+	createdAt: number
+}
+
+export type ProtectData = {
+	token: string
+	board?: string
+	id?: number
+	x?: number
+	y?: number
+	width?: number
+	height?: number
+	mask?: string // base64 编码的 ProtectedRegion.mask
+	allowedUids?: number[]
+	reason?: string
+	operator?: string
+}
+
+export type TimelapseFormat = 'webp' | 'zip'
+
+export type TimelapseOptions = {
+	board: string
+	width: number
+	height: number
+	startTime: number
+	endTime: number
+	frameInterval: number // 每帧间隔的绘版时间 (ms)
+	frameDelay: number // 动图中每帧显示的时间 (ms)
+	scale: number
+	format: TimelapseFormat
+	background: Color // 没有快照时从该颜色的空白绘版开始重放
+}
+
+export type TimelapseData = {
+	token: string
+	board?: string
+	startTime: number
+	endTime: number
+	frameInterval: number
+	frameDelay?: number
+	scale?: number
+	format?: TimelapseFormat
+}
+
+export type CompressionAlgorithm = 'deflate' | 'zstd'
+
 export type WebSocketData = {
 	connId: number
 	connectedAt: number
+	board: string // 连接所在的绘版
+	chunks?: Set<number> // 订阅的区块，未订阅区块时接收整个绘版的更新
+	compression?: CompressionAlgorithm // 协商的更新批次压缩方式
+	protocolVersion?: number // 客户端发送 0xf5 握手后才有
+	capabilities: number // 客户端声明支持的功能 (Capability)
 	lastPing: number
 	uid?: number
 	token?: string
+	tokenSlots?: (BoundToken | null)[] // 0xf3 绑定的 Token，下标为槽位号，吊销后置空
+	boardRequestPending?: boolean // 是否有正在处理的 0xec 请求
 	ip: string
 	packetsReceived: number
 	sendBuffer: Bun.ArrayBufferSink
@@ -66,4 +333,20 @@ export type WebSocketData = {
 	nextPingDelay?: number // 下一次 ping 的延迟时间(ms)
 }
 
-export type ColorUpdateListener = (batchUpdate: Uint8Array) => void
+export type BoundToken = {
+	uid: number
+	hash: string // Token 的哈希，连接上不保存 Token 本身
+}
+
+export type UpdateBatch = {
+	sequence: number
+	batch: Uint8Array
+}
+
+export type ColorUpdateListener = (
+	topic: string,
+	batchUpdate: Uint8Array,
+	sequence: number
+) => void
+
+export type TokenRevokedListener = (hash: string, uid: number) => void